@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Announcer, AnnouncerOptions } from "./announcer";
+import { VoidState } from "./void-engine";
+
+function state(symbol: string, overrides: Partial<VoidState> = {}): VoidState {
+  return {
+    symbol,
+    price: 100,
+    void_elasticity: 0,
+    void_pressure: 0,
+    void_kinetic: 0,
+    basis: 0,
+    funding_rate: 0,
+    time_to_funding: 0,
+    domain_state: "EQUILIBRIUM",
+    regime_confidence: 0.5,
+    signal: "STANDBY",
+    feed_status: "LIVE",
+    feed_age: 0,
+    monolith_stars: 4,
+    monolith_max_stars: 6,
+    strategy: "MONOLITH",
+    titans: [],
+    ...overrides,
+  };
+}
+
+/** Announcer on the mocked clock; `sent` collects what reached the session. */
+function harness(options: AnnouncerOptions = {}) {
+  const sent: string[] = [];
+  let busy = false;
+  let accepting = true;
+  const announcer = new Announcer(
+    text => {
+      if (accepting) sent.push(text);
+      return accepting;
+    },
+    () => busy,
+    options,
+  );
+  announcer.start();
+  for (const symbol of ["btcusdt", "ethusdt"]) announcer.observe(state(symbol), true, Date.now());
+  return {
+    announcer,
+    sent,
+    setBusy(value: boolean) {
+      busy = value;
+    },
+    setAccepting(value: boolean) {
+      accepting = value;
+    },
+    observe(symbol: string, overrides: Partial<VoidState>, focused = true) {
+      announcer.observe(state(symbol, overrides), focused, Date.now());
+    },
+  };
+}
+
+describe("Announcer", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["setInterval", "Date"], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  it("stays quiet on the first state of a symbol", () => {
+    const announcer = new Announcer(() => assert.fail("announced"), () => false);
+    announcer.start();
+    announcer.observe(state("btcusdt", { signal: "EXECUTE LONG" }), true, Date.now());
+    mock.timers.tick(1000);
+    announcer.stop();
+  });
+
+  it("spaces announcements by the minimum interval", () => {
+    const h = harness({ min_interval_ms: 8000 });
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    h.observe("ethusdt", { signal: "EXECUTE SHORT" });
+    mock.timers.tick(500);
+    assert.deepEqual(h.sent, ["[LEDGER EVENT] BTCUSDT EXECUTE LONG. 4 of 6 stars at 100.00."]);
+
+    mock.timers.tick(7000);
+    assert.equal(h.sent.length, 1);
+    mock.timers.tick(1000);
+    assert.equal(h.sent.length, 2);
+    assert.match(h.sent[1], /ETHUSDT EXECUTE SHORT/);
+    h.announcer.stop();
+  });
+
+  it("lets a CRITICAL feed alert skip the spacing", () => {
+    const h = harness();
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(500);
+    h.observe("ethusdt", { feed_status: "STALE" });
+    mock.timers.tick(500);
+    assert.equal(h.sent.length, 2);
+    assert.match(h.sent[1], /ETHUSDT feed is STALE/);
+    h.announcer.stop();
+  });
+
+  it("drops a repeat of the same key within its cooldown", () => {
+    const h = harness({ min_interval_ms: 0, key_cooldown_ms: 30_000 });
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(500);
+    h.observe("btcusdt", { signal: "STANDBY" });
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(10_000);
+    assert.equal(h.sent.length, 1);
+
+    mock.timers.tick(20_000);
+    h.observe("btcusdt", { signal: "STANDBY" });
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(500);
+    assert.equal(h.sent.length, 2);
+    h.announcer.stop();
+  });
+
+  it("holds the queue while busy and lets old news expire", () => {
+    const h = harness({ max_age_ms: 15_000 });
+    h.setBusy(true);
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(5000);
+    assert.equal(h.sent.length, 0);
+    h.setBusy(false);
+    mock.timers.tick(500);
+    assert.equal(h.sent.length, 1);
+
+    h.setBusy(true);
+    h.observe("ethusdt", { signal: "EXECUTE SHORT" });
+    mock.timers.tick(16_000);
+    h.setBusy(false);
+    mock.timers.tick(10_000);
+    assert.equal(h.sent.length, 1);
+    h.announcer.stop();
+  });
+
+  it("keeps an announcement the session refused and retries it", () => {
+    const h = harness({ key_cooldown_ms: 30_000 });
+    h.setAccepting(false);
+    h.observe("btcusdt", { signal: "EXECUTE LONG" });
+    mock.timers.tick(500);
+    assert.equal(h.sent.length, 0);
+
+    // Neither the spacing nor the key cooldown started on the failed send.
+    h.setAccepting(true);
+    mock.timers.tick(500);
+    assert.deepEqual(h.sent, ["[LEDGER EVENT] BTCUSDT EXECUTE LONG. 4 of 6 stars at 100.00."]);
+    h.announcer.stop();
+  });
+
+  it("announces regime and PREPARE only for the focused symbol", () => {
+    const h = harness({ min_interval_ms: 0 });
+    h.observe("ethusdt", { signal: "PREPARE", domain_state: "VOLATILITY" }, false);
+    mock.timers.tick(500);
+    assert.equal(h.sent.length, 0);
+
+    h.observe("btcusdt", { domain_state: "VOLATILITY", regime_confidence: 0.8 });
+    mock.timers.tick(500);
+    assert.deepEqual(h.sent, ["[LEDGER EVENT] BTCUSDT regime is now VOLATILITY, confidence 80 percent."]);
+    h.announcer.stop();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { VoidState } from "./void-engine";
+
+/** Higher wins the queue; CRITICAL also skips the global spacing. */
+export const Priority = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 } as const;
+export type Priority = (typeof Priority)[keyof typeof Priority];
+
+export interface Announcement {
+  text: string;
+  priority: Priority;
+  /** Same key within the cooldown is dropped as a repeat. */
+  key: string;
+  t: number;
+}
+
+export interface AnnouncerOptions {
+  /** Minimum gap between two spoken announcements. */
+  min_interval_ms?: number;
+  /** Minimum gap between two announcements with the same key. */
+  key_cooldown_ms?: number;
+  /** Queued announcements older than this are no longer news. */
+  max_age_ms?: number;
+  max_queue?: number;
+}
+
+/** Prefix the system instruction tells the model to treat as a ledger push. */
+export const LEDGER_EVENT_PREFIX = "[LEDGER EVENT]";
+
+/**
+ * Turns state transitions into short text events for the Live session so
+ * the Monolith speaks unprompted. Announcements queue by priority and are
+ * only released when the channel is idle: not muted, the user is not
+ * talking and the model is not mid-reply.
+ */
+export class Announcer {
+  public muted = false;
+
+  private min_interval_ms: number;
+  private key_cooldown_ms: number;
+  private max_age_ms: number;
+  private max_queue: number;
+
+  private queue: Announcement[] = [];
+  private last: Map<string, { signal: string; regime: string; feed: string }> = new Map();
+  private last_sent_at = -Infinity;
+  private key_sent_at: Map<string, number> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    /** False when the session could not take it; the announcement is retried. */
+    private send: (text: string) => boolean,
+    private isBusy: () => boolean,
+    options: AnnouncerOptions = {},
+  ) {
+    this.min_interval_ms = options.min_interval_ms ?? 8000;
+    this.key_cooldown_ms = options.key_cooldown_ms ?? 30000;
+    this.max_age_ms = options.max_age_ms ?? 15000;
+    this.max_queue = options.max_queue ?? 5;
+  }
+
+  public start() {
+    this.stop();
+    this.timer = setInterval(() => this.flush(), 500);
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public setMuted(muted: boolean) {
+    this.muted = muted;
+    if (muted) this.queue = [];
+  }
+
+  /**
+   * Feed every engine update. Regime and PREPARE are only announced for the
+   * focused symbol; EXECUTE and feed trouble are announced for all.
+   */
+  public observe(state: VoidState, focused: boolean, t = Date.now()) {
+    const prev = this.last.get(state.symbol);
+    this.last.set(state.symbol, { signal: state.signal, regime: state.domain_state, feed: state.feed_status });
+    if (!prev) return;
+
+    const sym = state.symbol.toUpperCase();
+
+    if (prev.feed !== state.feed_status && (state.feed_status === "STALE" || state.feed_status === "RECONNECTING")) {
+      this.enqueue(`${sym} feed is ${state.feed_status}. Signals are suspended.`, Priority.CRITICAL, `${sym}:feed`, t);
+    } else if (prev.feed !== "LIVE" && state.feed_status === "LIVE" && prev.feed !== "CLOSED" && prev.feed !== "CONNECTING") {
+      this.enqueue(`${sym} feed restored.`, Priority.MEDIUM, `${sym}:feed`, t);
+    }
+
+    if (prev.signal !== state.signal) {
+      if (state.signal.startsWith("EXECUTE")) {
+        this.enqueue(
+          `${sym} ${state.signal}. ${state.monolith_stars} of ${state.monolith_max_stars} stars at ${state.price.toFixed(2)}.`,
+          Priority.HIGH, `${sym}:signal:${state.signal}`, t,
+        );
+      } else if (state.signal === "PREPARE" && focused) {
+        this.enqueue(`${sym} PREPARE. ${state.monolith_stars} stars.`, Priority.MEDIUM, `${sym}:signal:PREPARE`, t);
+      }
+    }
+
+    if (prev.regime !== state.domain_state && focused && prev.regime !== "CALCULATING") {
+      this.enqueue(
+        `${sym} regime is now ${state.domain_state}, confidence ${(state.regime_confidence * 100).toFixed(0)} percent.`,
+        Priority.LOW, `${sym}:regime`, t,
+      );
+    }
+  }
+
+  private enqueue(text: string, priority: Priority, key: string, t: number) {
+    if (this.muted) return;
+    const sent = this.key_sent_at.get(key);
+    if (sent !== undefined && t - sent < this.key_cooldown_ms) return;
+
+    // A newer event for the same key supersedes the queued one.
+    this.queue = this.queue.filter(a => a.key !== key);
+    this.queue.push({ text, priority, key, t });
+    this.queue.sort((a, b) => b.priority - a.priority || a.t - b.t);
+    if (this.queue.length > this.max_queue) this.queue.length = this.max_queue;
+  }
+
+  private flush(t = Date.now()) {
+    this.queue = this.queue.filter(a => t - a.t <= this.max_age_ms);
+    const next = this.queue[0];
+    if (!next || this.muted || this.isBusy()) return;
+    if (next.priority < Priority.CRITICAL && t - this.last_sent_at < this.min_interval_ms) return;
+
+    if (!this.send(`${LEDGER_EVENT_PREFIX} ${next.text}`)) return;
+    this.queue.shift();
+    this.last_sent_at = t;
+    this.key_sent_at.set(next.key, t);
+  }
+}
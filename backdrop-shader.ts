@@ -19,6 +19,7 @@ out vec4 fragmentColor;
 
 uniform vec2 resolution;
 uniform float rand;
+uniform vec3 tint;
 
 void main() {
   float aspectRatio = resolution.x / resolution.y; 
@@ -31,7 +32,7 @@ void main() {
   float factor = 4.;
   float d = factor * length(vUv);
   vec3 from = vec3(3.) / 255.;
-  vec3 to = vec3(16., 12., 20.) / 2550.;
+  vec3 to = tint / 10.;
 
   fragmentColor = vec4(mix(from, to, d) + .005 * noise, 1.);
 }
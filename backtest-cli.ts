@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Usage:
+ *   npm run backtest -- --tape feed-btcusdt.jsonl [--horizons 5,30,60] [--json]
+ *   npm run backtest -- --synthetic 3600 [--seed 7] [--strategy desk.json]
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { BacktestReport, backtestEvents, backtestTape, formatReport, syntheticEvents } from "./backtest";
+import { parseStrategy } from "./strategy";
+
+const { values } = parseArgs({
+  options: {
+    tape: { type: "string" },
+    synthetic: { type: "string" },
+    seed: { type: "string", default: "1" },
+    horizons: { type: "string", default: "5,30,60" },
+    strategy: { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+const horizons = values.horizons!.split(",").map(Number).filter(h => h > 0);
+const strategy = values.strategy ? parseStrategy(readFileSync(values.strategy, "utf8")) : undefined;
+
+let report: BacktestReport;
+if (values.tape) {
+  report = await backtestTape(readFileSync(values.tape, "utf8"), { horizons, strategy });
+} else if (values.synthetic) {
+  report = backtestEvents(syntheticEvents(Number(values.synthetic), Number(values.seed)), { horizons, strategy });
+} else {
+  console.error("backtest: pass --tape <file.jsonl> or --synthetic <seconds>");
+  process.exit(1);
+}
+
+if (values.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  for (const tr of report.transitions) {
+    console.log(`${new Date(tr.t).toISOString()}  ${tr.from} -> ${tr.to}  @${tr.price.toFixed(2)}  ${tr.domain_state}  ${tr.stars}*`);
+  }
+  console.log("");
+  console.log(formatReport(report));
+}
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FeedEvent, MemoryFeedAdapter } from "./feed-adapters";
+import { ReplayFeedAdapter } from "./feed-recorder";
+import { StrategyDefinition } from "./strategy";
+import { VoidEngine, VoidState } from "./void-engine";
+
+/**
+ * Headless Monolith backtest. Drives a VoidEngine over a recorded tape or a
+ * synthetic event stream, logs every signal transition and scores it
+ * against the forward price move at each horizon.
+ */
+
+export interface BacktestOptions {
+  /** Forward horizons in seconds. */
+  horizons: number[];
+  strategy?: StrategyDefinition;
+}
+
+export interface SignalTransition {
+  t: number;
+  from: string;
+  to: string;
+  price: number;
+  domain_state: string;
+  stars: number;
+}
+
+export interface HorizonScore {
+  horizon: number;
+  scored: number;
+  hits: number;
+  hit_rate: number;
+  /** Mean direction-adjusted forward return, in basis points. */
+  avg_return_bps: number;
+}
+
+export interface DomainReport {
+  domain_state: string;
+  counts: Record<string, number>;
+  horizons: HorizonScore[];
+}
+
+export interface BacktestReport {
+  transitions: SignalTransition[];
+  overall: DomainReport;
+  domains: DomainReport[];
+}
+
+/** Collects transitions and the price path from engine updates. */
+class TransitionLog {
+  public transitions: SignalTransition[] = [];
+  public prices: Array<{ t: number; p: number }> = [];
+  private last_signal: string | null = null;
+
+  constructor(private clock: () => number) {}
+
+  public observe(state: VoidState) {
+    // Tape start/end status flips are not Monolith decisions.
+    if (state.feed_status !== "LIVE") return;
+    const t = this.clock();
+    if (state.price > 0) this.prices.push({ t, p: state.price });
+
+    if (this.last_signal === null) {
+      // The engine's opening state is a starting point, not a transition.
+      this.last_signal = state.signal;
+    } else if (state.signal !== this.last_signal) {
+      this.transitions.push({
+        t,
+        from: this.last_signal,
+        to: state.signal,
+        price: state.price,
+        domain_state: state.domain_state,
+        stars: state.monolith_stars,
+      });
+      this.last_signal = state.signal;
+    }
+  }
+}
+
+export async function backtestTape(jsonl: string, options: BacktestOptions): Promise<BacktestReport> {
+  const replay = new ReplayFeedAdapter(jsonl, "max");
+  const log = new TransitionLog(replay.clock);
+  const engine = new VoidEngine(s => log.observe(s), { adapter: replay, clock: replay.clock, strategy: options.strategy });
+
+  engine.connect();
+  await replay.finished;
+  engine.disconnect();
+
+  return scoreTransitions(log.transitions, log.prices, options.horizons);
+}
+
+export function backtestEvents(events: FeedEvent[], options: BacktestOptions): BacktestReport {
+  let now = 0;
+  const clock = () => now;
+  const feed = new MemoryFeedAdapter();
+  const log = new TransitionLog(clock);
+  const engine = new VoidEngine(s => log.observe(s), { adapter: feed, clock, strategy: options.strategy });
+
+  engine.connect();
+  for (const e of events) {
+    now = e.time;
+    feed.push(e);
+  }
+  engine.disconnect();
+
+  return scoreTransitions(log.transitions, log.prices, options.horizons);
+}
+
+const direction = (signal: string) =>
+  signal === "EXECUTE LONG" ? 1 : signal === "EXECUTE SHORT" ? -1 : 0;
+
+/** First recorded price at or after `t`, or null past the end of the tape. */
+function priceAt(prices: Array<{ t: number; p: number }>, t: number): number | null {
+  let lo = 0;
+  let hi = prices.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (prices[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < prices.length ? prices[lo].p : null;
+}
+
+function summarize(
+  domain_state: string,
+  transitions: SignalTransition[],
+  prices: Array<{ t: number; p: number }>,
+  horizons: number[],
+): DomainReport {
+  const counts: Record<string, number> = {};
+  for (const tr of transitions) counts[tr.to] = (counts[tr.to] || 0) + 1;
+
+  const scores = horizons.map(horizon => {
+    let scored = 0;
+    let hits = 0;
+    let total = 0;
+    for (const tr of transitions) {
+      const dir = direction(tr.to);
+      if (dir === 0 || tr.price <= 0) continue;
+      const fwd = priceAt(prices, tr.t + horizon * 1000);
+      if (fwd === null) continue;
+
+      const ret = dir * (fwd - tr.price) / tr.price;
+      scored++;
+      total += ret;
+      if (ret > 0) hits++;
+    }
+    return {
+      horizon,
+      scored,
+      hits,
+      hit_rate: scored > 0 ? hits / scored : 0,
+      avg_return_bps: scored > 0 ? (total / scored) * 10000 : 0,
+    };
+  });
+
+  return { domain_state, counts, horizons: scores };
+}
+
+export function scoreTransitions(
+  transitions: SignalTransition[],
+  prices: Array<{ t: number; p: number }>,
+  horizons: number[],
+): BacktestReport {
+  const by_domain = new Map<string, SignalTransition[]>();
+  for (const tr of transitions) {
+    const list = by_domain.get(tr.domain_state) || [];
+    list.push(tr);
+    by_domain.set(tr.domain_state, list);
+  }
+
+  return {
+    transitions,
+    overall: summarize("ALL", transitions, prices, horizons),
+    domains: [...by_domain.entries()].map(([d, trs]) => summarize(d, trs, prices, horizons)),
+  };
+}
+
+export function formatReport(report: BacktestReport): string {
+  const lines: string[] = [];
+  lines.push(`TRANSITIONS: ${report.transitions.length}`);
+
+  for (const d of [report.overall, ...report.domains]) {
+    lines.push("");
+    lines.push(`== ${d.domain_state} ==`);
+    const counts = Object.entries(d.counts).map(([s, n]) => `${s}=${n}`).join("  ");
+    lines.push(`  signals: ${counts || "none"}`);
+    for (const h of d.horizons) {
+      lines.push(
+        `  +${h.horizon}s  scored=${h.scored}  hit=${(h.hit_rate * 100).toFixed(1)}%  avg=${h.avg_return_bps.toFixed(2)}bps`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Small deterministic PRNG so synthetic runs are reproducible. */
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random-walk trade and depth stream on a 0.1 tick grid with occasional
+ * one-sided bursts, so every branch of the Monolith gets exercised.
+ */
+export function syntheticEvents(seconds: number, seed = 1, start_price = 60000): FeedEvent[] {
+  const rand = mulberry32(seed);
+  const events: FeedEvent[] = [];
+  let price = start_price;
+  let burst = 0;
+  let burst_side = 1;
+
+  for (let ms = 0; ms < seconds * 1000; ms += 100) {
+    if (burst <= 0 && rand() < 0.002) {
+      burst = 20 + Math.floor(rand() * 60);
+      burst_side = rand() < 0.5 ? 1 : -1;
+    }
+    const bias = burst > 0 ? burst_side * 0.7 : 0;
+    burst--;
+
+    const n_trades = burst > 0 ? 3 : Math.floor(rand() * 2);
+    for (let i = 0; i < n_trades; i++) {
+      const side = rand() * 2 - 1 + bias > 0 ? 1 : -1;
+      const qty = (burst > 0 ? 5 : 0.5) * (0.2 + rand());
+      price = Math.max(1, Math.round((price + side * qty * 0.5) * 10) / 10);
+      events.push({ kind: "trade", price, qty, is_buyer_maker: side < 0, time: ms });
+    }
+
+    const bids: Array<[number, number]> = [];
+    const asks: Array<[number, number]> = [];
+    for (let lvl = 0; lvl < 20; lvl++) {
+      const skew = 1 + bias * (lvl === 0 ? 1 : 0.2);
+      bids.push([Math.round((price - 0.1 * (lvl + 1)) * 10) / 10, (1 + rand() * 4) * skew]);
+      asks.push([Math.round((price + 0.1 * (lvl + 1)) * 10) / 10, (1 + rand() * 4) / skew]);
+    }
+    events.push({ kind: "book", bids, asks, time: ms });
+  }
+  return events;
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Engine throughput benchmark: `npm run bench`.
+ *
+ * `LegacyMetrics` is the array hot path VoidEngine used before the
+ * rolling-window rewrite, as the "before" baseline. `WindowMetrics` computes
+ * the same CTD, LQ and imbalance dispersion on the ring buffers and rolling
+ * sums from rolling.ts. Both read the snapshot-replaced `OrderBook` and
+ * share the regime and Monolith logic, so the comparison measures the
+ * windows alone. The full engine is timed on the same stream for reference.
+ */
+
+import { syntheticEvents } from "./backtest";
+import { FeedEvent, MemoryFeedAdapter } from "./feed-adapters";
+import { OrderBook } from "./order-book";
+import { RingBuffer, RollingStats, TimeWindowSum } from "./rolling";
+import { VoidEngine } from "./void-engine";
+
+class LegacyMetrics {
+  public state = { price: 0, void_kinetic: 0, void_pressure: 0, void_elasticity: 0, domain_state: "", signal: "", monolith_stars: 0 };
+  private trades: Array<{ p: number; q: number; b: boolean; t: number }> = [];
+  private book = new OrderBook();
+  private imbalance_hist: number[] = [];
+
+  /** Imbalance samples in the dispersion window. */
+  protected get imbalanceCount(): number {
+    return this.imbalance_hist.length;
+  }
+
+  public handle(e: FeedEvent) {
+    if (e.kind === "trade") this.processTrade(e.price, e.qty, e.is_buyer_maker, e.time / 1000);
+    else if (e.kind === "book") this.processBook(e.bids, e.asks);
+    this.updateRegime();
+    this.calculateMonolith();
+  }
+
+  protected processTrade(p: number, q: number, is_buyer_maker: boolean, t_now: number) {
+    const is_buyer = !is_buyer_maker;
+    this.state.price = p;
+    this.trades.push({ p, q, b: is_buyer, t: t_now });
+    if (this.trades.length > 1000) this.trades.shift();
+
+    const recent = this.trades.filter(t => t.t > t_now - 3);
+    const buy_vol = recent.filter(t => t.b).reduce((sum, t) => sum + t.q, 0);
+    const sell_vol = recent.filter(t => !t.b).reduce((sum, t) => sum + t.q, 0);
+    this.state.void_kinetic = buy_vol - sell_vol;
+
+    const micro = this.trades.slice(-20);
+    if (micro.length > 1) {
+      const micro_price_delta = micro[micro.length - 1].p - micro[0].p;
+      const micro_vol = micro.reduce((sum, t) => sum + t.q, 0);
+      if (micro_vol > 0.01) this.state.void_elasticity = (micro_price_delta / micro_vol) * 10000;
+    }
+  }
+
+  private processBook(bids: Array<[number, number]>, asks: Array<[number, number]>) {
+    this.book.replace(bids, asks);
+    if (!this.book.isValid()) return;
+
+    const [, l1_bid_vol] = this.book.bestBid()!;
+    const [, l1_ask_vol] = this.book.bestAsk()!;
+    const denominator = l1_bid_vol + l1_ask_vol;
+    const ratio = denominator > 0 ? (l1_bid_vol - l1_ask_vol) / denominator : 0;
+    this.state.void_pressure = ratio;
+    this.pushImbalance(ratio);
+  }
+
+  protected pushImbalance(ratio: number) {
+    this.imbalance_hist.push(ratio);
+    if (this.imbalance_hist.length > 120) this.imbalance_hist.shift();
+  }
+
+  protected imbalanceStd(): number {
+    const n = this.imbalance_hist.length;
+    const mean = this.imbalance_hist.reduce((a, b) => a + b, 0) / n;
+    const variance = this.imbalance_hist.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / n;
+    return Math.sqrt(variance);
+  }
+
+  private updateRegime() {
+    if (this.imbalanceCount > 10) {
+      const volatility = this.imbalanceStd();
+      if (volatility < 0.1) this.state.domain_state = "STAGNATION";
+      else if (volatility < 0.35) this.state.domain_state = "EQUILIBRIUM";
+      else this.state.domain_state = "VOLATILITY";
+    }
+  }
+
+  private calculateMonolith() {
+    const k = this.state.void_kinetic;
+    const p = this.state.void_pressure;
+    const e = this.state.void_elasticity;
+    let stars = 0;
+    if (Math.abs(k) > 50) stars++;
+    if (Math.abs(p) > 0.3) stars++;
+    if (Math.abs(e) > 2.0) stars++;
+    if (this.state.domain_state === "VOLATILITY") stars++;
+    if ((k > 0 && p > 0) || (k < 0 && p < 0)) stars++;
+    this.state.monolith_stars = stars;
+    this.state.signal = stars >= 4 ? (k > 0 ? "EXECUTE LONG" : "EXECUTE SHORT") : stars === 3 ? "PREPARE" : "STANDBY";
+  }
+}
+
+class WindowMetrics extends LegacyMetrics {
+  private flow = new TimeWindowSum(3000);
+  private micro_prices = new RingBuffer<number>(20);
+  private micro_qty = new RollingStats(20);
+  private imbalance = new RollingStats(120);
+
+  protected get imbalanceCount(): number {
+    return this.imbalance.length;
+  }
+
+  protected processTrade(p: number, q: number, is_buyer_maker: boolean, t_now: number) {
+    this.state.price = p;
+    this.flow.push(t_now * 1000, is_buyer_maker ? -q : q);
+    this.state.void_kinetic = this.flow.sum;
+
+    this.micro_prices.push(p);
+    this.micro_qty.push(q);
+    if (this.micro_prices.length > 1) {
+      const micro_price_delta = this.micro_prices.last()! - this.micro_prices.first()!;
+      const micro_vol = this.micro_qty.total;
+      if (micro_vol > 0.01) this.state.void_elasticity = (micro_price_delta / micro_vol) * 10000;
+    }
+  }
+
+  protected pushImbalance(ratio: number) {
+    this.imbalance.push(ratio);
+  }
+
+  protected imbalanceStd(): number {
+    return this.imbalance.stddev;
+  }
+}
+
+function measure(label: string, events: FeedEvent[], run: (events: FeedEvent[]) => void) {
+  run(events.slice(0, 5000)); // warm up the JIT
+  const start = performance.now();
+  run(events);
+  const ms = performance.now() - start;
+  const rate = events.length / (ms / 1000);
+  console.log(`${label.padEnd(10)} ${events.length} msgs in ${ms.toFixed(0)}ms  ->  ${Math.round(rate).toLocaleString("en-US")} msgs/s`);
+  return rate;
+}
+
+const events = syntheticEvents(Number(process.argv[2] || 1800), 42);
+
+const before = measure("before", events, evs => {
+  const legacy = new LegacyMetrics();
+  for (const e of evs) legacy.handle(e);
+});
+
+const after = measure("after", events, evs => {
+  const windows = new WindowMetrics();
+  for (const e of evs) windows.handle(e);
+});
+
+console.log(`speedup    ${(after / before).toFixed(1)}x`);
+
+measure("engine", events, evs => {
+  let now = 0;
+  const feed = new MemoryFeedAdapter();
+  const engine = new VoidEngine(undefined, { adapter: feed, clock: () => now });
+  engine.connect();
+  for (const e of evs) {
+    now = e.time;
+    feed.push(e);
+  }
+  engine.disconnect();
+});
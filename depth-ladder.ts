@@ -0,0 +1,321 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:no-new-decorators
+
+import {LitElement, PropertyValues, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import type {Level} from './order-book';
+import {RingBuffer} from './rolling';
+import type {BookSnapshot, VoidEngine} from './void-engine';
+
+/** One heatmap column per depth update: 300 columns is 30s at 100ms. */
+const HEATMAP_COLUMNS = 300;
+const COLUMN_PX = 2;
+/** Price buckets (one tick each) shown on the heatmap, centred on the mid. */
+const HEATMAP_ROWS = 48;
+const ROW_PX = 4;
+/** Re-centre once the mid drifts this many ticks from the centre row. */
+const RECENTER_TICKS = HEATMAP_ROWS / 4;
+/** Per-update decay of the size that maps to full brightness. */
+const SIZE_DECAY = 0.995;
+
+/**
+ * Depth ladder and liquidity heatmap for one engine. The book sequence is
+ * polled once per animation frame; the book is only copied and drawn when a
+ * new depth update has landed, so 100ms updates cost one snapshot, one
+ * ladder render and one heatmap column each. The heatmap canvas is scrolled
+ * in place rather than redrawn, keeping the main thread free to feed the
+ * audio playback queue.
+ */
+@customElement('void-depth-ladder')
+export class VoidDepthLadder extends LitElement {
+  @property({attribute: false}) engine?: VoidEngine;
+  /** Ladder levels shown per side. */
+  @property({type: Number}) rows = 10;
+
+  @state() private book: BookSnapshot | null = null;
+
+  private history = new RingBuffer<BookSnapshot>(HEATMAP_COLUMNS);
+  private last_seq = -1;
+  private frame = 0;
+  private canvas!: HTMLCanvasElement;
+  private ctx!: CanvasRenderingContext2D;
+  /** Smallest price step seen; one heatmap row. */
+  private tick = Infinity;
+  /** Price drawn on the middle heatmap row. */
+  private center = 0;
+  private max_size = 0;
+
+  static styles = css`
+    :host {
+      display: block;
+      font-size: 13px;
+    }
+
+    .ladder-row {
+      position: relative;
+      z-index: 0;
+      display: flex;
+      justify-content: space-between;
+      padding: 0 4px;
+    }
+
+    .bar {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      right: 0;
+      z-index: -1;
+    }
+
+    .ask .bar {
+      background: #3a1c1c;
+    }
+
+    .bid .bar {
+      background: #1c3a24;
+    }
+
+    .l1 {
+      color: #fff;
+      outline: 1px dashed #888;
+    }
+
+    .wall .price::after {
+      content: ' [WALL]';
+      color: #ddd;
+    }
+
+    .absorb .price::after {
+      content: ' [ABSORB]';
+      color: #fff;
+      text-shadow: 0 0 5px #fff;
+    }
+
+    .spread {
+      color: #666;
+      text-align: center;
+    }
+
+    .obi {
+      margin-top: 8px;
+      color: #888;
+    }
+
+    .obi-track {
+      position: relative;
+      height: 6px;
+      margin-top: 4px;
+      border: 1px solid #333;
+    }
+
+    .obi-fill {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      background: #ddd;
+    }
+
+    .obi-track::after {
+      content: '';
+      position: absolute;
+      left: 50%;
+      top: -2px;
+      bottom: -2px;
+      border-left: 1px solid #666;
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      margin-top: 10px;
+      border: 1px solid #333;
+      image-rendering: pixelated;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.frame = requestAnimationFrame(() => this.poll());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.frame);
+  }
+
+  protected firstUpdated() {
+    this.canvas = this.shadowRoot!.querySelector('canvas')!;
+    this.ctx = this.canvas.getContext('2d')!;
+    this.redraw();
+  }
+
+  protected updated(changed: PropertyValues<this>) {
+    if (changed.has('engine') && changed.get('engine') !== undefined) {
+      this.reset();
+    }
+  }
+
+  private reset() {
+    this.history.clear();
+    this.book = null;
+    this.last_seq = -1;
+    this.tick = Infinity;
+    this.center = 0;
+    this.max_size = 0;
+    if (this.ctx) this.redraw();
+  }
+
+  private poll() {
+    this.frame = requestAnimationFrame(() => this.poll());
+    if (!this.engine || !this.ctx) return;
+    if (this.engine.bookSeq === this.last_seq) return;
+
+    const snap = this.engine.bookSnapshot(Math.max(this.rows, HEATMAP_ROWS / 2));
+    this.last_seq = snap.seq;
+    if (snap.bids.length === 0 || snap.asks.length === 0) return;
+
+    this.book = snap;
+    this.history.push(snap);
+
+    let size = 0;
+    for (const [, q] of snap.bids) size = Math.max(size, q);
+    for (const [, q] of snap.asks) size = Math.max(size, q);
+    this.max_size = Math.max(this.max_size * SIZE_DECAY, size);
+
+    const tick = Math.min(this.tick, minStep(snap.bids), minStep(snap.asks));
+    const mid = (snap.bids[0][0] + snap.asks[0][0]) / 2;
+    if (tick !== this.tick || Math.abs(mid - this.center) > RECENTER_TICKS * tick) {
+      this.tick = tick;
+      this.center = Math.round(mid / tick) * tick;
+      this.redraw();
+    } else {
+      this.shiftIn(snap);
+    }
+  }
+
+  /** Shift the heatmap one column left and draw the new snapshot. */
+  private shiftIn(snap: BookSnapshot) {
+    const {width, height} = this.canvas;
+    this.ctx.drawImage(this.canvas, -COLUMN_PX, 0);
+    this.ctx.fillStyle = '#000';
+    this.ctx.fillRect(width - COLUMN_PX, 0, COLUMN_PX, height);
+    this.drawColumn(snap, width - COLUMN_PX);
+  }
+
+  /** Draw every kept column, after a re-centre or a tick change. */
+  private redraw() {
+    const {width, height} = this.canvas;
+    this.ctx.fillStyle = '#000';
+    this.ctx.fillRect(0, 0, width, height);
+    if (!Number.isFinite(this.tick)) return;
+    let x = width - this.history.length * COLUMN_PX;
+    for (const snap of this.history) {
+      this.drawColumn(snap, x);
+      x += COLUMN_PX;
+    }
+  }
+
+  private drawColumn(snap: BookSnapshot, x: number) {
+    this.drawSide(snap.bids, x, '60, 200, 110');
+    this.drawSide(snap.asks, x, '220, 70, 70');
+    const mid = (snap.bids[0][0] + snap.asks[0][0]) / 2;
+    this.ctx.fillStyle = '#fff';
+    this.ctx.fillRect(x, this.rowOf(mid) * ROW_PX + ROW_PX / 2 - 1, COLUMN_PX, 2);
+  }
+
+  private drawSide(levels: Level[], x: number, rgb: string) {
+    for (const [price, qty] of levels) {
+      const row = this.rowOf(price);
+      if (row < 0 || row >= HEATMAP_ROWS) continue;
+      const a = this.max_size > 0 ? Math.sqrt(Math.min(1, qty / this.max_size)) : 0;
+      this.ctx.fillStyle = `rgba(${rgb}, ${a.toFixed(3)})`;
+      this.ctx.fillRect(x, row * ROW_PX, COLUMN_PX, ROW_PX);
+    }
+  }
+
+  /** Heatmap row for a price; higher prices are nearer the top. */
+  private rowOf(price: number): number {
+    return Math.round((this.center - price) / this.tick) + HEATMAP_ROWS / 2;
+  }
+
+  protected render() {
+    const book = this.book;
+    return html`
+      ${book ? this.renderLadder(book) : html`<div class="spread">NO BOOK</div>`}
+      <canvas
+        width=${HEATMAP_COLUMNS * COLUMN_PX}
+        height=${HEATMAP_ROWS * ROW_PX}></canvas>
+    `;
+  }
+
+  private renderLadder(book: BookSnapshot) {
+    const asks = book.asks.slice(0, this.rows);
+    const bids = book.bids.slice(0, this.rows);
+    let max = 0;
+    for (const [, q] of asks) max = Math.max(max, q);
+    for (const [, q] of bids) max = Math.max(max, q);
+    const decimals = Number.isFinite(this.tick)
+      ? Math.min(8, Math.max(0, -Math.floor(Math.log10(this.tick) + 1e-9)))
+      : 2;
+    const walls = new Set(book.walls);
+    const absorbed = book.absorption?.price;
+
+    const row = (level: Level, side: 'bid' | 'ask', l1: boolean) => {
+      const [price, qty] = level;
+      const classes = [
+        'ladder-row',
+        side,
+        l1 ? 'l1' : '',
+        walls.has(price) ? 'wall' : '',
+        price === absorbed ? 'absorb' : '',
+      ].join(' ');
+      return html`
+        <div class=${classes}>
+          <span class="bar" style="width: ${max > 0 ? (100 * qty / max).toFixed(1) : 0}%"></span>
+          <span class="price">${price.toFixed(decimals)}</span>
+          <span class="size">${qty.toFixed(3)}</span>
+        </div>
+      `;
+    };
+
+    const spread = book.asks[0][0] - book.bids[0][0];
+    const pressure = book.pressure;
+    const fill = Math.min(1, Math.abs(pressure)) * 50;
+    return html`
+      ${[...asks].reverse().map((level, i) => row(level, 'ask', i === asks.length - 1))}
+      <div class="spread">SPREAD ${spread.toFixed(decimals)}</div>
+      ${bids.map((level, i) => row(level, 'bid', i === 0))}
+      <div class="obi">
+        OBI ${pressure >= 0 ? '+' : ''}${pressure.toFixed(2)} =
+        (L1 BID ${book.l1_bid_size.toFixed(3)} - L1 ASK ${book.l1_ask_size.toFixed(3)}) /
+        ${(book.l1_bid_size + book.l1_ask_size).toFixed(3)}
+        <div class="obi-track">
+          <span
+            class="obi-fill"
+            style="left: ${pressure >= 0 ? 50 : 50 - fill}%; width: ${fill}%"></span>
+        </div>
+      </div>
+    `;
+  }
+}
+
+/** Smallest gap between adjacent levels; Infinity for fewer than two. */
+function minStep(levels: Level[]): number {
+  let step = Infinity;
+  for (let i = 1; i < levels.length; i++) {
+    // Rounded so float noise in prices does not read as a finer tick.
+    const gap = Number(Math.abs(levels[i][0] - levels[i - 1][0]).toPrecision(6));
+    if (gap > 0) step = Math.min(step, gap);
+  }
+  return step;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'void-depth-ladder': VoidDepthLadder;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BinanceFuturesAdapter, FeedEvent, FeedSocket, FeedStatus } from "./feed-adapters";
+
+/** Futures adapter on a socket the test opens and feeds by hand. */
+function harness() {
+  const socket: FeedSocket & { closed: boolean } = {
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null,
+    closed: false,
+    close() {
+      this.closed = true;
+    },
+  };
+  const events: FeedEvent[] = [];
+  const statuses: FeedStatus[] = [];
+  const adapter = new BinanceFuturesAdapter({ socket: () => socket, clock: () => 0 });
+  adapter.open("btcusdt", { onEvent: e => events.push(e), onStatus: s => statuses.push(s) });
+  return { adapter, socket, events, statuses };
+}
+
+const aggTrade = JSON.stringify({ stream: "btcusdt@aggTrade", data: { p: "100.5", q: "2", m: true, T: 42 } });
+
+describe("WebSocketFeedAdapter", () => {
+  it("reports CLOSED when closed and stops reconnecting", () => {
+    const h = harness();
+    h.socket.onopen?.({});
+    h.adapter.close();
+    assert.deepEqual(h.statuses, ["CONNECTING", "LIVE", "CLOSED"]);
+    assert.ok(h.socket.closed);
+    assert.equal(h.socket.onclose, null);
+  });
+
+  it("skips a malformed frame with a warning and keeps parsing", t => {
+    const h = harness();
+    const warn = t.mock.method(console, "warn", () => {});
+    h.socket.onmessage?.({ data: "{not json" });
+    h.socket.onmessage?.({ data: JSON.stringify({ result: null, id: 1 }) });
+    h.socket.onmessage?.({ data: aggTrade });
+    assert.equal(warn.mock.callCount(), 2);
+    assert.deepEqual(h.events, [{ kind: "trade", price: 100.5, qty: 2, is_buyer_maker: true, time: 42 }]);
+    h.adapter.close();
+  });
+});
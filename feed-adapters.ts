@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Venue-neutral market events. Adapters translate venue JSON into these so
+ * the engine never sees exchange-specific payloads.
+ */
+export interface TradeEvent {
+  kind: "trade";
+  price: number;
+  qty: number;
+  is_buyer_maker: boolean;
+  time: number;
+}
+
+/** A partial-depth snapshot: the full top N of each side, not a diff. */
+export interface BookEvent {
+  kind: "book";
+  bids: Array<[number, number]>;
+  asks: Array<[number, number]>;
+  time: number;
+  /** Venue sequence number, used to drop out-of-order snapshots. */
+  update_id?: number;
+}
+
+/** Perpetual mark/index price and funding (futures venues only). */
+export interface MarkEvent {
+  kind: "mark";
+  mark_price: number;
+  index_price: number;
+  funding_rate: number;
+  next_funding_time: number;
+  time: number;
+}
+
+export type FeedEvent = TradeEvent | BookEvent | MarkEvent;
+
+/**
+ * Transport state as the adapter sees it. STALE is never reported by
+ * adapters; the engine's watchdog derives it from message arrival.
+ */
+export type FeedStatus = "CONNECTING" | "LIVE" | "RECONNECTING" | "STALE" | "CLOSED";
+
+export interface FeedHandlers {
+  onEvent: (event: FeedEvent) => void;
+  onOpen?: () => void;
+  /** Every raw transport message, with its local receive time in ms. */
+  onRaw?: (raw: string, received_at: number) => void;
+  onStatus?: (status: FeedStatus) => void;
+}
+
+/** Anything that can turn a raw venue message into feed events. */
+export interface FeedParser {
+  parse(raw: string): FeedEvent[];
+}
+
+export interface FeedAdapter {
+  readonly venue: string;
+  open(symbol: string, handlers: FeedHandlers): void;
+  close(): void;
+}
+
+/** The slice of the WebSocket API adapters use; the browser's and `ws` both fit. */
+export interface FeedSocket {
+  onopen: ((event: unknown) => void) | null;
+  /** Venues stream JSON text frames. */
+  onmessage: ((event: { data: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  close(): void;
+}
+
+export interface WebSocketFeedOptions {
+  /** Opens the transport; defaults to the global WebSocket. */
+  socket?: (url: string) => FeedSocket;
+  /** Local receive time in ms. */
+  clock?: () => number;
+}
+
+/** Backoff bounds for WebSocket reconnects. */
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 30_000;
+/** Binance drops every connection at 24h; roll over a little before. */
+const MAX_CONNECTION_MS = 23.5 * 60 * 60 * 1000;
+
+/**
+ * Base for venues that stream JSON over a single WebSocket. Subclasses only
+ * provide the stream URL and the message parser. Unexpected closes are
+ * retried with jittered exponential backoff until `close()` is called,
+ * which reports CLOSED.
+ */
+export abstract class WebSocketFeedAdapter implements FeedAdapter, FeedParser {
+  abstract readonly venue: string;
+  protected clock: () => number;
+  private socket: (url: string) => FeedSocket;
+  private ws: FeedSocket | null = null;
+  private handlers: FeedHandlers | null = null;
+  private attempts = 0;
+  private reconnect_timer: ReturnType<typeof setTimeout> | null = null;
+  private rollover_timer: ReturnType<typeof setTimeout> | null = null;
+
+  abstract streamUrl(symbol: string): string;
+  abstract parse(raw: string): FeedEvent[];
+
+  constructor(options: WebSocketFeedOptions = {}) {
+    this.socket = options.socket || (url => new WebSocket(url));
+    this.clock = options.clock || Date.now;
+  }
+
+  public open(symbol: string, handlers: FeedHandlers) {
+    this.close();
+    this.handlers = handlers;
+    this.attempts = 0;
+    this.connect(symbol, handlers);
+  }
+
+  public close() {
+    if (this.reconnect_timer) clearTimeout(this.reconnect_timer);
+    if (this.rollover_timer) clearTimeout(this.rollover_timer);
+    this.reconnect_timer = null;
+    this.rollover_timer = null;
+    this.drop();
+    this.handlers?.onStatus?.("CLOSED");
+    this.handlers = null;
+  }
+
+  private connect(symbol: string, handlers: FeedHandlers) {
+    handlers.onStatus?.(this.attempts === 0 ? "CONNECTING" : "RECONNECTING");
+    const ws = this.socket(this.streamUrl(symbol));
+    this.ws = ws;
+
+    ws.onopen = () => {
+        console.log(">>> LEDGER CONNECTED: " + this.venue + " " + symbol);
+        handlers.onOpen?.();
+        handlers.onStatus?.("LIVE");
+        this.rollover_timer = setTimeout(() => {
+            console.log(">>> LEDGER ROLLOVER: " + this.venue + " " + symbol);
+            this.drop();
+            this.connect(symbol, handlers);
+        }, MAX_CONNECTION_MS);
+    };
+
+    ws.onmessage = (event) => {
+      this.attempts = 0;
+      handlers.onRaw?.(event.data, this.clock());
+      let events: FeedEvent[];
+      try {
+        events = this.parse(event.data);
+      } catch (e) {
+        // One bad frame (a subscription ack, a truncated payload) must not stop the feed.
+        console.warn(">>> LEDGER BAD MESSAGE: " + this.venue + " " + symbol, e);
+        return;
+      }
+      for (const e of events) handlers.onEvent(e);
+    };
+
+    ws.onerror = () => {
+        console.warn(">>> LEDGER ERROR: " + this.venue + " " + symbol);
+    };
+
+    ws.onclose = () => {
+        if (this.ws !== ws) return;
+        this.drop();
+        this.scheduleReconnect(symbol, handlers);
+    };
+  }
+
+  private scheduleReconnect(symbol: string, handlers: FeedHandlers) {
+    if (this.rollover_timer) clearTimeout(this.rollover_timer);
+    this.rollover_timer = null;
+
+    // Full jitter: a fleet of ledgers must not reconnect in lockstep.
+    const cap = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.attempts);
+    const delay = Math.random() * cap;
+    this.attempts++;
+    handlers.onStatus?.("RECONNECTING");
+    console.log(`>>> LEDGER LOST: ${this.venue} ${symbol}, retry in ${Math.round(delay)}ms`);
+
+    this.reconnect_timer = setTimeout(() => {
+        this.reconnect_timer = null;
+        this.connect(symbol, handlers);
+    }, delay);
+  }
+
+  /** Detach and close the current socket without triggering a reconnect. */
+  private drop() {
+    if (this.ws) {
+        const ws = this.ws;
+        this.ws = null;
+        ws.onopen = null;
+        ws.onmessage = null;
+        ws.onerror = null;
+        ws.onclose = null;
+        ws.close();
+    }
+  }
+}
+
+const parseLevels = (levels: string[][]): Array<[number, number]> =>
+  levels.map(([p, q]) => [parseFloat(p), parseFloat(q)]);
+
+/** Binance USDⓈ-M futures combined stream. */
+export class BinanceFuturesAdapter extends WebSocketFeedAdapter {
+  readonly venue = "binance-futures";
+
+  streamUrl(symbol: string) {
+    return `wss://fstream.binance.com/stream?streams=${symbol}@aggTrade/${symbol}@depth20@100ms/${symbol}@markPrice@1s`;
+  }
+
+  parse(raw: string): FeedEvent[] {
+    const payload = JSON.parse(raw);
+    const stream: string = payload.stream;
+    const data = payload.data;
+
+    if (stream.includes("aggTrade")) {
+      return [{ kind: "trade", price: parseFloat(data.p), qty: parseFloat(data.q), is_buyer_maker: data.m, time: data.T }];
+    } else if (stream.includes("depth")) {
+      return [{ kind: "book", bids: parseLevels(data.b), asks: parseLevels(data.a), time: data.E, update_id: data.u }];
+    } else if (stream.includes("markPrice")) {
+      return [{
+        kind: "mark",
+        mark_price: parseFloat(data.p),
+        index_price: parseFloat(data.i),
+        funding_rate: parseFloat(data.r),
+        next_funding_time: data.T,
+        time: data.E,
+      }];
+    }
+    return [];
+  }
+}
+
+/**
+ * Binance spot combined stream. Spot partial-depth payloads carry
+ * `bids`/`asks` and no event time.
+ */
+export class BinanceSpotAdapter extends WebSocketFeedAdapter {
+  readonly venue = "binance-spot";
+
+  streamUrl(symbol: string) {
+    return `wss://stream.binance.com:9443/stream?streams=${symbol}@aggTrade/${symbol}@depth20@100ms`;
+  }
+
+  parse(raw: string): FeedEvent[] {
+    const payload = JSON.parse(raw);
+    const stream: string = payload.stream;
+    const data = payload.data;
+
+    if (stream.includes("aggTrade")) {
+      return [{ kind: "trade", price: parseFloat(data.p), qty: parseFloat(data.q), is_buyer_maker: data.m, time: data.T }];
+    } else if (stream.includes("depth")) {
+      return [{
+        kind: "book",
+        bids: parseLevels(data.bids),
+        asks: parseLevels(data.asks),
+        time: this.clock(),
+        update_id: data.lastUpdateId,
+      }];
+    }
+    return [];
+  }
+}
+
+/**
+ * In-memory feed for tests and scripted sessions. Events pushed before
+ * `open` are dropped.
+ */
+export class MemoryFeedAdapter implements FeedAdapter {
+  readonly venue = "memory";
+  private handlers: FeedHandlers | null = null;
+
+  public open(_symbol: string, handlers: FeedHandlers) {
+    this.handlers = handlers;
+    handlers.onOpen?.();
+    handlers.onStatus?.("LIVE");
+  }
+
+  public close() {
+    this.handlers?.onStatus?.("CLOSED");
+    this.handlers = null;
+  }
+
+  public push(...events: FeedEvent[]) {
+    for (const e of events) this.handlers?.onEvent(e);
+  }
+}
+
+export function createFeedAdapter(venue: string, options: WebSocketFeedOptions = {}): WebSocketFeedAdapter {
+  switch (venue) {
+    case "binance-futures": return new BinanceFuturesAdapter(options);
+    case "binance-spot": return new BinanceSpotAdapter(options);
+    default: throw new Error(`Unknown feed venue: ${venue}`);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FeedAdapter, FeedHandlers, FeedParser, createFeedAdapter } from "./feed-adapters";
+
+/**
+ * Recorded sessions are JSONL: one header line, then one line per raw
+ * transport message with its local receive time.
+ */
+export interface RecordingHeader {
+  venue: string;
+  symbol: string;
+  started_at: number;
+}
+
+export interface RecordedMessage {
+  t: number;
+  raw: string;
+}
+
+export class FeedRecorder {
+  private lines: string[] = [];
+
+  constructor(public readonly header: RecordingHeader) {
+    this.lines.push(JSON.stringify(header));
+  }
+
+  public record(raw: string, received_at: number) {
+    const msg: RecordedMessage = { t: received_at, raw };
+    this.lines.push(JSON.stringify(msg));
+  }
+
+  get size() {
+    return this.lines.length - 1;
+  }
+
+  public toJSONL() {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+export function parseRecording(jsonl: string): { header: RecordingHeader; messages: RecordedMessage[] } {
+  const lines = jsonl.split("\n").filter(l => l.trim().length > 0);
+  if (lines.length === 0) throw new Error("Empty recording");
+
+  const header: RecordingHeader = JSON.parse(lines[0]);
+  const messages: RecordedMessage[] = lines.slice(1).map(l => JSON.parse(l));
+  return { header, messages };
+}
+
+/** Playback rate multiplier, or "max" to run as fast as possible. */
+export type ReplaySpeed = number | "max";
+
+/**
+ * Feeds a recording back through the engine. The adapter keeps a virtual
+ * clock pinned to the receive time of the message being replayed; pass
+ * `clock` to the engine so its time windows match the original session.
+ */
+export class ReplayFeedAdapter implements FeedAdapter {
+  readonly venue: string;
+  public readonly symbol: string;
+  public readonly finished: Promise<void>;
+
+  private messages: RecordedMessage[];
+  private parser: FeedParser;
+  private speed: ReplaySpeed;
+  private cursor = 0;
+  private virtual_now = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private handlers: FeedHandlers | null = null;
+  private resolveFinished!: () => void;
+
+  constructor(jsonl: string, speed: ReplaySpeed = 1, parser?: FeedParser) {
+    const { header, messages } = parseRecording(jsonl);
+    this.venue = header.venue;
+    this.symbol = header.symbol;
+    this.messages = messages;
+    this.parser = parser || createFeedAdapter(header.venue);
+    this.speed = speed;
+    this.virtual_now = messages.length > 0 ? messages[0].t : header.started_at;
+    this.finished = new Promise(resolve => this.resolveFinished = resolve);
+  }
+
+  public clock = () => this.virtual_now;
+
+  public open(_symbol: string, handlers: FeedHandlers) {
+    this.close();
+    this.handlers = handlers;
+    this.cursor = 0;
+    handlers.onOpen?.();
+    handlers.onStatus?.("LIVE");
+    this.step(handlers);
+  }
+
+  public close() {
+    if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+    }
+    this.handlers?.onStatus?.("CLOSED");
+    this.handlers = null;
+  }
+
+  private step(handlers: FeedHandlers) {
+    // Yield to the event loop every batch so "max" does not starve the UI.
+    const batch = this.speed === "max" ? 1000 : 1;
+    for (let i = 0; i < batch && this.cursor < this.messages.length; i++) {
+      const msg = this.messages[this.cursor++];
+      this.virtual_now = msg.t;
+      handlers.onRaw?.(msg.raw, msg.t);
+      for (const e of this.parser.parse(msg.raw)) handlers.onEvent(e);
+    }
+
+    if (this.cursor >= this.messages.length) {
+      this.timer = null;
+      this.handlers = null;
+      handlers.onStatus?.("CLOSED");
+      this.resolveFinished();
+      return;
+    }
+
+    const delay = this.speed === "max"
+      ? 0
+      : Math.max(0, (this.messages[this.cursor].t - this.virtual_now) / this.speed);
+    this.timer = setTimeout(() => this.step(handlers), delay);
+  }
+}
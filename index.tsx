@@ -5,40 +5,127 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {GoogleGenAI, LiveServerMessage, Modality, Session, Type} from '@google/genai';
+import {GoogleGenAI, LiveConnectConfig, LiveServerMessage, Modality} from '@google/genai';
 import {LitElement, css, html} from 'lit';
 import {customElement, state} from 'lit/decorators.js';
-import {createBlob, decode, decodeAudioData} from './utils';
-import { VoidEngine, VoidState } from './void-engine';
+import {createBlob} from './utils';
+import { HISTORY_METRICS, HistoryMetric, VoidEngine, VoidEngineOptions, VoidState, normalizeSymbol } from './void-engine';
+import { DEFAULT_STRATEGY, StrategyDefinition, parseStrategy } from './strategy';
+import { ReplayFeedAdapter, ReplaySpeed } from './feed-recorder';
+import { JournalEntry, SignalJournal, journalToCSV, journalToJSON } from './journal';
+import { BookView, PaperTrader } from './paper-trader';
+import { Announcer, LEDGER_EVENT_PREFIX } from './announcer';
+import { MicCapture } from './mic-capture';
+import { TranscriptLine, TranscriptLog, transcriptToJSON, transcriptToText } from './transcript';
+import { AudioPlayback } from './playback';
+import { LinkStatus, VoiceLink } from './voice-link';
+import { InputGate, InputMode } from './voice-activity';
+import { MARKET_TOOLS, ToolError, ToolRegistry } from './tools';
+import './visual-3d';
+import './depth-ladder';
+import './sparkline';
+import { HISTORY_WINDOW_SECONDS, HistoryWindow } from './trend';
 
 @customElement('gdm-live-audio')
 export class GdmLiveAudio extends LitElement {
   @state() isRecording = false;
-  @state() status = 'DISCONNECTED';
-  @state() voidState: VoidState = {
+  @state() isRecordingFeed = false;
+  @state() replaySpeed: ReplaySpeed = 1;
+  @state() feedMode: 'LIVE' | 'REPLAY' = 'LIVE';
+  @state() strategyError = '';
+  @state() replayError = '';
+  @state() status: LinkStatus = 'OFFLINE';
+  @state() micError = '';
+  @state() symbols: string[] = ['btcusdt', 'ethusdt', 'solusdt'];
+  @state() focusedSymbol = 'btcusdt';
+  @state() watchlist: Record<string, VoidState> = {};
+  @state() journalEntries: JournalEntry[] = [];
+  @state() transcriptLines: TranscriptLine[] = [];
+  @state() announcementsMuted = false;
+  @state() duckOutput = true;
+  @state() inputMode: InputMode = 'ALWAYS_ON';
+  @state() inputLevel = 0;
+  @state() userSpeaking = false;
+  @state() historyWindow: HistoryWindow = '1m';
+
+  private static readonly EMPTY_STATE: VoidState = {
+    symbol: "---",
     price: 0,
     void_elasticity: 0,
     void_kinetic: 0,
     void_pressure: 0,
+    basis: 0,
+    funding_rate: 0,
+    time_to_funding: 0,
     domain_state: "---",
+    regime_confidence: 0,
     signal: "WAITING",
+    feed_status: "CLOSED",
+    feed_age: -1,
     monolith_stars: 0,
+    monolith_max_stars: 0,
+    strategy: "---",
     titans: []
   };
 
+  private get voidState(): VoidState {
+    return this.watchlist[this.focusedSymbol] || GdmLiveAudio.EMPTY_STATE;
+  }
+
+  private get voidEngine(): VoidEngine | undefined {
+    return this.engines.get(this.focusedSymbol);
+  }
+
   private client: GoogleGenAI;
-  private session: Session;
-  private inputAudioContext = new (window.AudioContext ||
-    (window as any).webkitAudioContext)({sampleRate: 16000});
-  private outputAudioContext = new (window.AudioContext ||
-    (window as any).webkitAudioContext)({sampleRate: 24000});
-  private inputNode = this.inputAudioContext.createGain();
-  private outputNode = this.outputAudioContext.createGain();
-  private nextStartTime = 0;
-  private mediaStream: MediaStream;
-  private sourceNode: AudioBufferSourceNode;
-  private scriptProcessorNode: ScriptProcessorNode;
-  private voidEngine: VoidEngine;
+  private link: VoiceLink;
+  private playback = new AudioPlayback();
+  private gate = new InputGate({
+    audio: (pcm) => this.link?.sendAudio(createBlob(pcm)),
+    activityStart: () => this.link?.sendActivity(true),
+    activityEnd: () => this.link?.sendActivity(false),
+  });
+  private mic = new MicCapture(({pcm, level}) => {
+    if (!this.isRecording) return;
+    this.gate.push(pcm, level);
+    this.onUserLevel(level);
+  });
+  /** After a local barge-in, drop the rest of the interrupted reply. */
+  private dropModelAudio = false;
+  private engines = new Map<string, VoidEngine>();
+  private journal = new SignalJournal();
+  private transcript = new TranscriptLog();
+  private paperTrader = new PaperTrader();
+  private announcer = new Announcer(
+    (text) => {
+        if (!this.link?.sendText(text)) return false;
+        this.transcript.say('LEDGER', text.slice(LEDGER_EVENT_PREFIX.length).trim());
+        this.transcriptLines = [...this.transcript.lines];
+        return true;
+    },
+    () => this.isChannelBusy(),
+  );
+  private lastUserVoiceAt = 0;
+  private tools = new ToolRegistry({
+    symbols: () => this.feedMode === 'LIVE' ? this.symbols : Object.keys(this.watchlist),
+    focusedSymbol: () => this.focusedSymbol,
+    state: (symbol) => this.watchlist[symbol],
+    engine: (symbol) => this.engines.get(symbol),
+    focus: (symbol) => {
+      if (this.feedMode === 'LIVE') {
+        this.focusedSymbol = this.addSymbol(symbol);
+        return;
+      }
+      // A replay only has the engines it was started with.
+      if (!this.engines.has(symbol)) {
+        throw new ToolError('NOT_FOUND', `${symbol.toUpperCase()} is not in the replay. Replaying: ${[...this.engines.keys()].join(', ').toUpperCase()}.`);
+      }
+      this.focusedSymbol = symbol;
+    },
+    strategy: () => this.strategy || DEFAULT_STRATEGY,
+    setStrategy: (strategy) => this.applyStrategy(strategy),
+    paperStats: () => this.paperTrader.stats(this.bookViews()),
+  });
+  private strategy: StrategyDefinition | undefined;
 
   static styles = css`
     :host {
@@ -54,12 +141,21 @@ export class GdmLiveAudio extends LitElement {
       line-height: 1.4;
     }
 
+    gdm-live-audio-visuals-3d {
+      position: fixed;
+      inset: 0;
+      z-index: 0;
+      pointer-events: none;
+    }
+
     .ledger-container {
+      position: relative;
+      z-index: 1;
       max-width: 800px;
       margin: 0 auto;
       border: 1px solid #333;
       padding: 40px;
-      background: #000;
+      background: rgba(0, 0, 0, 0.82);
       box-shadow: 10px 10px 0px #1a1a1a;
     }
 
@@ -143,6 +239,17 @@ export class GdmLiveAudio extends LitElement {
       border-bottom: 1px solid #333;
     }
 
+    .history-window {
+      text-align: right;
+      margin-bottom: 8px;
+    }
+    .history-window button {
+      padding: 2px 8px;
+    }
+    void-sparkline {
+      margin-right: 10px;
+    }
+
     .active-indicator {
       color: #fff;
       text-shadow: 0 0 5px #fff;
@@ -169,113 +276,514 @@ export class GdmLiveAudio extends LitElement {
       border-color: #888;
       color: #ddd;
     }
+    .input-controls {
+      margin-top: 12px;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      gap: 10px;
+      font-size: 12px;
+    }
+    .meter {
+      display: inline-block;
+      width: 120px;
+      height: 8px;
+      border: 1px solid #333;
+    }
+    .meter-fill {
+      display: block;
+      height: 100%;
+      background: #555;
+    }
+    .meter-fill.speaking {
+      background: #ddd;
+    }
+
+    button:disabled {
+      color: #444;
+      border-color: #222;
+      cursor: not-allowed;
+    }
     button.active {
       background: #222;
       color: #fff;
       border-color: #fff;
     }
+
+    .file-button, select {
+      display: inline-block;
+      background: transparent;
+      color: #888;
+      border: 1px solid #333;
+      padding: 5px 15px;
+      font-family: inherit;
+      cursor: pointer;
+      font-size: 12px;
+      text-transform: uppercase;
+    }
+    .file-button:hover {
+      border-color: #888;
+      color: #ddd;
+    }
+    .file-button input {
+      display: none;
+    }
+
+    .error {
+      color: #a33;
+    }
+
+    .entries {
+      max-height: 220px;
+      overflow-y: auto;
+      font-size: 12px;
+      border-left: 1px dotted #333;
+      padding-left: 10px;
+    }
+    .entry {
+      margin-bottom: 4px;
+      white-space: nowrap;
+    }
+    .entry.transcript-line {
+      white-space: normal;
+    }
+    .entries-actions {
+      margin-top: 10px;
+      text-align: right;
+    }
+
+    .watch-row {
+      cursor: pointer;
+    }
+    .watch-row:hover .label, .watch-row.focused .label {
+      color: #ddd;
+    }
+    .watch-row button.remove {
+      padding: 0 6px;
+      margin-left: 8px;
+      font-size: 10px;
+    }
+
+    .add-symbol {
+      display: flex;
+      gap: 10px;
+      margin-top: 10px;
+    }
+    .add-symbol input {
+      flex: 1;
+      background: transparent;
+      border: 1px solid #333;
+      color: #ddd;
+      font-family: inherit;
+      font-size: 12px;
+      padding: 5px 10px;
+      text-transform: uppercase;
+    }
   `;
 
   constructor() {
     super();
-    this.voidEngine = new VoidEngine((newState) => {
-        this.voidState = {...newState};
-    });
+    this.journal.open().then(entries => this.journalEntries = [...entries]);
+    this.transcript.open().then(lines => this.transcriptLines = [...lines]);
+    this.announcer.start();
+    MARKET_TOOLS.forEach(tool => this.tools.register(tool));
     this.initClient();
   }
 
-  firstUpdated() {
-      this.voidEngine.connect();
+  private createEngine(options: VoidEngineOptions = {}) {
+    return new VoidEngine((newState) => {
+        this.watchlist = {...this.watchlist, [newState.symbol]: newState};
+        // Replays run on tape time; only the live session is journaled.
+        if (this.feedMode !== 'LIVE') return;
+        if (this.journal.observe(newState).length > 0) {
+            this.journalEntries = [...this.journal.entries];
+        }
+        const engine = this.engines.get(newState.symbol);
+        if (engine) this.paperTrader.onState(newState, engine.bookView());
+        this.announcer.observe(newState, newState.symbol === this.focusedSymbol);
+    }, {strategy: this.strategy, ...options});
   }
 
-  private async initClient() {
-    this.outputNode.connect(this.outputAudioContext.destination);
-    this.client = new GoogleGenAI({apiKey: process.env.API_KEY});
-    await this.initSession();
+  private startEngine(symbol: string, options: VoidEngineOptions = {}) {
+    const engine = this.createEngine({symbol, ...options});
+    this.engines.set(engine.symbol, engine);
+    engine.connect();
+    return engine;
   }
 
-  private async initSession() {
-    const model = 'gemini-2.5-flash-native-audio-preview-09-2025';
+  private stopEngines() {
+    this.engines.forEach(engine => engine.disconnect());
+    this.engines.clear();
+    this.watchlist = {};
+  }
+
+  /** Start tracking a symbol; returns the normalized symbol. */
+  private addSymbol(input: string) {
+    const symbol = normalizeSymbol(input);
+    if (!this.symbols.includes(symbol)) {
+        this.symbols = [...this.symbols, symbol];
+        if (this.feedMode === 'LIVE') this.startEngine(symbol);
+    }
+    return symbol;
+  }
+
+  private removeSymbol(symbol: string) {
+    if (this.symbols.length <= 1) return;
+    this.engines.get(symbol)?.disconnect();
+    this.engines.delete(symbol);
+    this.symbols = this.symbols.filter(s => s !== symbol);
+    const {[symbol]: _removed, ...rest} = this.watchlist;
+    this.watchlist = rest;
+    if (this.focusedSymbol === symbol) this.focusedSymbol = this.symbols[0];
+  }
+
+  private onAddSymbol(e: Event) {
+    e.preventDefault();
+    const input = (e.target as HTMLFormElement).querySelector('input')!;
+    if (!input.value.trim()) return;
+    this.focusedSymbol = this.addSymbol(input.value);
+    input.value = '';
+  }
+
+  private async loadStrategy(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
     try {
-      this.session = await this.client.live.connect({
-        model,
-        callbacks: {
-          onopen: () => this.status = "CONNECTED",
-          onmessage: async (msg: LiveServerMessage) => {
-            if (msg.toolCall) {
-                const responses = msg.toolCall.functionCalls.map(fc => ({
-                    id: fc.id, name: fc.name, response: { result: JSON.stringify(this.voidState) }
-                }));
-                this.session.sendToolResponse({ functionResponses: responses });
-            }
-            if (msg.serverContent?.modelTurn?.parts[0]?.inlineData) {
-                this.playAudio(msg.serverContent.modelTurn.parts[0].inlineData.data);
-            }
-          },
-          onclose: () => this.status = "OFFLINE",
-          onerror: () => this.status = "ERROR"
+        this.applyStrategy(parseStrategy(await file.text()));
+    } catch (err) {
+        console.error(err);
+        this.strategyError = (err as Error).message;
+    }
+  }
+
+  private applyStrategy(strategy: StrategyDefinition) {
+    this.strategy = strategy;
+    this.engines.forEach(engine => engine.setStrategy(strategy));
+    this.strategyError = '';
+  }
+
+  firstUpdated() {
+      this.symbols.forEach(symbol => this.startEngine(symbol));
+  }
+
+  private initClient() {
+    // LIVE_BASE_URL points the Live session at a stand-in server (npm run mock-live).
+    this.client = process.env.LIVE_BASE_URL
+        ? new GoogleGenAI({apiKey: 'mock', httpOptions: {baseUrl: process.env.LIVE_BASE_URL}})
+        : new GoogleGenAI({apiKey: process.env.API_KEY});
+    this.link = new VoiceLink(this.client.live, 'gemini-2.5-flash-native-audio-preview-09-2025', this.liveConfig(), {
+        onMessage: (msg) => this.onLiveMessage(msg),
+        onStatus: (status) => {
+            this.status = status;
+            // Whatever was playing belonged to the connection that just went away.
+            if (status === 'RECONNECTING') this.playback.interrupt();
         },
-        config: {
-            responseModalities: [Modality.AUDIO],
-            systemInstruction: "You are the Voice of the Monolith. Ancient, mechanical, absolute. You do not chat. You confirm Titans. You announce Regimes. Speak briefly.",
-            tools: [{functionDeclarations: [{
-                name: "get_market_metrics",
-                description: "Read the Ledger",
-                parameters: { type: Type.OBJECT, properties: {} }
-            }]}]
-        }
-      });
-    } catch(e) { console.error(e); }
+        onFresh: () => this.reseedContext(),
+    });
+    this.transcript.startSession();
+    this.link.open();
+  }
+
+  private liveConfig(): LiveConnectConfig {
+    return {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: "You are the Voice of the Monolith. Ancient, mechanical, absolute. You do not chat. You confirm Titans. You announce Regimes. Speak briefly. " +
+            `Messages starting with ${LEDGER_EVENT_PREFIX} come from the Ledger, not the user: announce them in one short sentence, do not reply to them.`,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Push-to-talk and client VAD mark turns themselves.
+        realtimeInputConfig: this.inputMode === 'ALWAYS_ON' ? undefined : {automaticActivityDetection: {disabled: true}},
+        tools: [{functionDeclarations: this.tools.declarations()}]
+    };
+  }
+
+  private onLiveMessage(msg: LiveServerMessage) {
+    if (msg.toolCall) {
+        this.link.sendToolResponse(msg.toolCall.functionCalls.map(fc => this.tools.call(fc)));
+    }
+    const content = msg.serverContent;
+    if (content?.interrupted) {
+        this.playback.interrupt();
+        this.transcript.interrupt();
+        this.dropModelAudio = false;
+    }
+    const heard = this.transcript.append('USER', content?.inputTranscription?.text || '');
+    const said = this.transcript.append('MONOLITH', content?.outputTranscription?.text || '');
+    if (heard || said || content?.interrupted) this.transcriptLines = [...this.transcript.lines];
+    if (content?.modelTurn?.parts[0]?.inlineData && !this.dropModelAudio) {
+        // A chunk that fails to decode is skipped; the rest of the reply plays.
+        this.playback.enqueue(content.modelTurn.parts[0].inlineData.data)
+            .catch(err => console.warn('>>> PLAYBACK: dropped undecodable chunk', err));
+    }
+    if (content?.turnComplete) this.dropModelAudio = false;
+  }
+
+  /**
+   * The link came back as a new conversation: hand the model the tail of
+   * the old one so it does not start from nothing.
+   */
+  private reseedContext() {
+    const recent = this.transcript.lines.filter(l => l.text.trim()).slice(-12);
+    this.transcript.startSession();
+    if (recent.length === 0) return;
+    this.link.sendText('The voice link dropped and was restored. The conversation so far, for context only; do not reply:\n' +
+        transcriptToText(recent), false);
+  }
+
+  private bookViews(): Record<string, BookView> {
+    const books: Record<string, BookView> = {};
+    this.engines.forEach((engine, symbol) => books[symbol] = engine.bookView());
+    return books;
+  }
+
+  /** Hold announcements while the model is talking or the user just spoke. */
+  private isChannelBusy() {
+    if (!this.link?.isReady) return true;
+    const userSpeaking = Date.now() - this.lastUserVoiceAt < 1500;
+    return this.playback.speaking || userSpeaking;
   }
 
-  private async playAudio(data: string) {
-    this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
-    const audioBuffer = await decodeAudioData(decode(data), this.outputAudioContext, 24000, 1);
-    const source = this.outputAudioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+  private toggleAnnouncements() {
+    this.announcementsMuted = !this.announcementsMuted;
+    this.announcer.setMuted(this.announcementsMuted);
+  }
+
+  /**
+   * Called per mic chunk. Ducks the model while the user talks and cuts it
+   * off once speech is sustained, without waiting for the server to notice.
+   */
+  private onUserLevel(level: number) {
+    const now = Date.now();
+    this.inputLevel = level;
+    this.userSpeaking = this.gate.speaking;
+    // Outside always-on, only what the gate lets through counts as talking.
+    const voiced = this.inputMode === 'ALWAYS_ON' ? level > 0.02 || this.gate.speaking : this.gate.speaking;
+    if (voiced) this.lastUserVoiceAt = now;
+
+    this.playback.duck(this.duckOutput && now - this.lastUserVoiceAt < 400);
+    if (this.gate.speaking && this.playback.speaking) this.bargeIn();
+  }
+
+  private bargeIn() {
+    this.playback.interrupt();
+    this.transcript.interrupt();
+    this.transcriptLines = [...this.transcript.lines];
+    this.dropModelAudio = true;
+  }
+
+  private setInputMode(e: Event) {
+    const mode = (e.target as HTMLSelectElement).value as InputMode;
+    if (mode === this.inputMode) return;
+    this.inputMode = mode;
+    this.gate.setMode(mode);
+    this.userSpeaking = false;
+    // Automatic activity detection is a session setting; resume under the new one.
+    this.link?.reconfigure(this.liveConfig());
+  }
+
+  private pushToTalk(held: boolean) {
+    if (this.inputMode !== 'PUSH_TO_TALK' || !this.isRecording) return;
+    if (held) {
+        this.gate.press();
+        if (this.playback.speaking) this.bargeIn();
+    } else {
+        this.gate.release();
+    }
+    this.userSpeaking = this.gate.speaking;
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.code !== 'Space' || e.repeat || this.isTyping(e)) return;
+    if (this.inputMode !== 'PUSH_TO_TALK') return;
+    e.preventDefault();
+    this.pushToTalk(true);
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    if (e.code !== 'Space' || this.isTyping(e)) return;
+    this.pushToTalk(false);
+  };
+
+  private isTyping(e: KeyboardEvent) {
+    const target = e.composedPath()[0] as HTMLElement;
+    return target?.tagName === 'INPUT' || target?.tagName === 'SELECT' || target?.tagName === 'TEXTAREA';
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+  }
+
+  /** RMS on a -60..0 dBFS scale, as a bar width. */
+  private meterPercent(level: number) {
+    if (level <= 0) return 0;
+    return Math.max(0, Math.min(100, (20 * Math.log10(level) + 60) / 60 * 100));
+  }
+
+  private toggleDucking() {
+    this.duckOutput = !this.duckOutput;
+    if (!this.duckOutput) this.playback.duck(false);
   }
 
   private async toggleMic() {
     if(this.isRecording) {
         this.isRecording = false;
-        this.scriptProcessorNode?.disconnect();
-        this.sourceNode?.disconnect();
+        this.mic.stop();
+        this.gate.close();
+        this.inputLevel = 0;
+        this.userSpeaking = false;
+        this.playback.duck(false);
         return;
     }
+    if (this.status === 'OFFLINE') return;
     this.isRecording = true;
-    this.inputAudioContext.resume();
-    this.mediaStream = await navigator.mediaDevices.getUserMedia({audio: true});
-    this.sourceNode = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
-    this.scriptProcessorNode = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-    this.scriptProcessorNode.onaudioprocess = (e) => {
-        if(!this.isRecording) return;
-        this.session.sendRealtimeInput({media: createBlob(e.inputBuffer.getChannelData(0))});
-    };
-    this.sourceNode.connect(this.scriptProcessorNode);
-    this.scriptProcessorNode.connect(this.inputAudioContext.destination);
+    this.micError = '';
+    try {
+        await this.mic.start();
+    } catch (e) {
+        console.error(e);
+        this.isRecording = false;
+        this.micError = (e as Error).message;
+    }
+  }
+
+  private toggleFeedRecording() {
+    if (this.isRecordingFeed) {
+        this.isRecordingFeed = false;
+        const recorder = this.voidEngine?.stopRecording();
+        if (!recorder) return;
+        this.download(`feed-${recorder.header.symbol}-${recorder.header.started_at}.jsonl`, recorder.toJSONL(), 'application/x-ndjson');
+        return;
+    }
+    if (!this.voidEngine) return;
+    this.voidEngine.startRecording();
+    this.isRecordingFeed = true;
+  }
+
+  private download(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], {type}));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async exportJournal(format: 'csv' | 'json') {
+    const entries = await this.journal.all();
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'csv') this.download(`ledger-entries-${stamp}.csv`, journalToCSV(entries), 'text/csv');
+    else this.download(`ledger-entries-${stamp}.json`, journalToJSON(entries), 'application/json');
+  }
+
+  private async exportTranscript(format: 'txt' | 'json') {
+    const lines = await this.transcript.all();
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'txt') this.download(`ledger-transcript-${stamp}.txt`, transcriptToText(lines), 'text/plain');
+    else this.download(`ledger-transcript-${stamp}.json`, transcriptToJSON(lines), 'application/json');
+  }
+
+  private async loadReplay(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    let replay: ReplayFeedAdapter;
+    try {
+        replay = new ReplayFeedAdapter(await file.text(), this.replaySpeed);
+    } catch (err) {
+        console.error(err);
+        this.replayError = (err as Error).message;
+        return;
+    }
+    this.replayError = '';
+    this.isRecordingFeed = false;
+    this.stopEngines();
+    this.feedMode = 'REPLAY';
+    this.focusedSymbol = this.startEngine(replay.symbol, {adapter: replay, clock: replay.clock}).symbol;
+  }
+
+  private endReplay() {
+    this.replayError = '';
+    this.stopEngines();
+    this.feedMode = 'LIVE';
+    this.symbols.forEach(symbol => this.startEngine(symbol));
+    if (!this.symbols.includes(this.focusedSymbol)) this.focusedSymbol = this.symbols[0];
+  }
+
+  private onReplaySpeed(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.replaySpeed = value === 'max' ? 'max' : Number(value);
   }
 
   render() {
-    const { price, domain_state, signal, monolith_stars, titans } = this.voidState;
+    const { symbol, feed_status, feed_age, price, basis, funding_rate, time_to_funding, domain_state, regime_confidence, signal, monolith_stars, monolith_max_stars, strategy, titans } = this.voidState;
     const filledStars = "★".repeat(monolith_stars);
-    const emptyStars = "☆".repeat(5 - monolith_stars);
+    const emptyStars = "☆".repeat(Math.max(0, monolith_max_stars - monolith_stars));
+    const fundingIn = new Date(time_to_funding * 1000).toISOString().substring(11, 19);
     const date = new Date().toISOString().split('T')[0];
     const time = new Date().toLocaleTimeString();
+    const paper = this.paperTrader.stats(this.bookViews());
+    const history = this.voidEngine?.metricHistory(HISTORY_WINDOW_SECONDS[this.historyWindow]) ?? [];
+    const series = (metric: HistoryMetric) => history.map(s => s[metric]);
+    const titanDefs = (this.strategy || DEFAULT_STRATEGY).titans;
+    const sparkline = (name: string) => {
+        const def = titanDefs.find(d => d.label === name);
+        if (!def || !HISTORY_METRICS.includes(def.metric as HistoryMetric)) return '';
+        return html`<void-sparkline .values=${series(def.metric as HistoryMetric)} .threshold=${def.threshold} direction=${def.direction}></void-sparkline>`;
+    };
 
     return html`
+      <gdm-live-audio-visuals-3d
+        .inputNode=${this.mic.monitor}
+        .outputNode=${this.playback.output}
+        .market=${this.voidState}></gdm-live-audio-visuals-3d>
       <div class="ledger-container">
         <div class="title">THE LEDGER</div>
         <div class="meta-info">
             DATE: ${date}<br>
             TIME: ${time}<br>
-            LINK: ${this.status}
+            LINK: <span class="${this.status === 'CONNECTED' ? '' : 'error'}">${this.status}</span>${process.env.LIVE_BASE_URL ? ' (MOCK)' : ''}${this.micError ? html` <span class="error">[MIC: ${this.micError}]</span>` : ''}<br>
+            FEED: ${this.feedMode} / <span class="${feed_status === 'LIVE' ? '' : 'error'}">${feed_status}${feed_status === 'STALE' ? ` ${feed_age.toFixed(0)}s` : ''}</span>${this.replayError ? html` <span class="error">[REPLAY: ${this.replayError}]</span>` : ''}<br>
+            STRATEGY: ${strategy}${this.strategyError ? html` <span class="error">[${this.strategyError}]</span>` : ''}
         </div>
 
         <div class="separator">========================================</div>
 
+        <div class="section-header">WATCHLIST</div>
+        ${(this.feedMode === 'LIVE' ? this.symbols : Object.keys(this.watchlist)).map(sym => {
+            const s = this.watchlist[sym];
+            return html`
+            <div class="row watch-row ${sym === this.focusedSymbol ? 'focused' : ''}" @click=${() => this.focusedSymbol = sym}>
+                <span class="label">${sym === this.focusedSymbol ? '>' : ' '} ${sym.toUpperCase()}</span>
+                <span class="value">
+                    ${s ? html`$${s.price.toFixed(2)} ${s.domain_state} ${'★'.repeat(s.monolith_stars)} ${s.signal}${s.feed_status === 'LIVE' ? '' : html` <span class="error">[${s.feed_status}]</span>`}` : 'ACQUIRING...'}
+                    ${this.feedMode === 'LIVE' && this.symbols.length > 1 ? html`<button class="remove" @click=${(e: Event) => { e.stopPropagation(); this.removeSymbol(sym); }}>x</button>` : ''}
+                </span>
+            </div>`;
+        })}
+        ${this.feedMode === 'LIVE' ? html`
+            <form class="add-symbol" @submit=${this.onAddSymbol}>
+                <input type="text" placeholder="ADD SYMBOL (e.g. ETH)">
+                <button type="submit">TRACK</button>
+            </form>
+        ` : ''}
+
+        <div class="separator">========================================</div>
+
+        <div class="section-header">DETAIL: ${symbol.toUpperCase()}</div>
+
         <div class="monolith-box">
             <div>MONOLITH STATUS</div>
             <div class="stars">${filledStars}${emptyStars}</div>
@@ -284,15 +792,21 @@ export class GdmLiveAudio extends LitElement {
 
         <div class="regime-display">
             CURRENT REGIME: <span style="font-weight:bold">${domain_state}</span>
+            <span class="label">(${(regime_confidence * 100).toFixed(0)}%)</span>
         </div>
 
         <div class="section-header">ACTIVE TITANS</div>
-        
+        <div class="history-window">
+            ${(Object.keys(HISTORY_WINDOW_SECONDS) as HistoryWindow[]).map(w => html`
+                <button class="${this.historyWindow === w ? 'active' : ''}" @click=${() => this.historyWindow = w}>${w}</button>
+            `)}
+        </div>
+
         ${titans.map(t => html`
             <div class="row">
                 <span class="label">${t.name} ........................</span>
                 <span class="value ${t.active ? 'active-indicator' : ''}">
-                    ${t.value} ${t.active ? '[ACTIVE]' : ''}
+                    ${sparkline(t.name)}${t.value} ${t.active ? '[ACTIVE]' : ''}
                 </span>
             </div>
         `)}
@@ -301,13 +815,123 @@ export class GdmLiveAudio extends LitElement {
 
         <div class="row">
             <span class="label">ASSET PRICE</span>
-            <span class="value">$${price.toFixed(2)}</span>
+            <span class="value"><void-sparkline .values=${series('price')}></void-sparkline>$${price.toFixed(2)}</span>
+        </div>
+        <div class="row">
+            <span class="label">BASIS / FUNDING</span>
+            <span class="value">${(basis * 100).toFixed(3)}% / ${(funding_rate * 100).toFixed(4)}%</span>
+        </div>
+        <div class="row">
+            <span class="label">NEXT FUNDING IN</span>
+            <span class="value">${fundingIn}</span>
+        </div>
+
+        <div class="section-header">ORDER BOOK</div>
+        <void-depth-ladder .engine=${this.voidEngine}></void-depth-ladder>
+
+        <div class="section-header">PAPER BOOK</div>
+        ${paper.positions.length === 0 ? html`<div class="row"><span class="label">POSITION</span><span class="value">FLAT</span></div>` : ''}
+        ${paper.positions.map(p => html`
+            <div class="row">
+                <span class="label">${p.symbol.toUpperCase()} ${p.side} ${p.qty.toFixed(4)} @ ${p.entry_price.toFixed(2)}</span>
+                <span class="value">${p.unrealized_pnl >= 0 ? '+' : ''}${p.unrealized_pnl.toFixed(2)}</span>
+            </div>
+        `)}
+        <div class="row">
+            <span class="label">REALIZED PNL (NET OF ${paper.fees_paid.toFixed(2)} FEES)</span>
+            <span class="value">${paper.realized_pnl >= 0 ? '+' : ''}${paper.realized_pnl.toFixed(2)}</span>
+        </div>
+        <div class="row">
+            <span class="label">WIN RATE</span>
+            <span class="value">${(paper.win_rate * 100).toFixed(1)}% (${paper.wins}/${paper.trades})</span>
+        </div>
+
+        <div class="section-header">ENTRIES</div>
+        <div class="entries">
+            ${this.journalEntries.length === 0 ? html`<div class="label">NO ENTRIES</div>` : ''}
+            ${[...this.journalEntries].reverse().map(e => html`
+                <div class="entry">
+                    <span class="label">${new Date(e.t).toLocaleString()}</span>
+                    ${e.symbol.toUpperCase()} ${e.kind}: ${e.from} &rarr; <span class="value">${e.to}</span>
+                    @ $${e.price.toFixed(2)} ${'★'.repeat(e.stars)}
+                </div>
+            `)}
+        </div>
+        <div class="entries-actions">
+            <button @click=${() => this.exportJournal('csv')}>EXPORT CSV</button>
+            <button @click=${() => this.exportJournal('json')}>EXPORT JSON</button>
+        </div>
+
+        <div class="section-header">TRANSCRIPT</div>
+        <div class="entries">
+            ${this.transcriptLines.length === 0 ? html`<div class="label">NOTHING SAID</div>` : ''}
+            ${[...this.transcriptLines].reverse().map(line => html`
+                <div class="entry transcript-line">
+                    <span class="label">${new Date(line.t).toLocaleTimeString()}</span>
+                    <span class="${line.speaker === 'MONOLITH' ? 'value' : ''}">${line.speaker}:</span>
+                    ${line.text}${line.interrupted ? html` <span class="label">[INTERRUPTED]</span>` : ''}
+                </div>
+            `)}
+        </div>
+        <div class="entries-actions">
+            <button @click=${() => this.exportTranscript('txt')}>EXPORT TEXT</button>
+            <button @click=${() => this.exportTranscript('json')}>EXPORT JSON</button>
         </div>
 
         <div class="controls">
-            <button class="${this.isRecording ? 'active' : ''}" @click=${this.toggleMic}>
-                ${this.isRecording ? "VOICE LINK ACTIVE" : "ACTIVATE VOICE LINK"}
+            <button class="${this.isRecording ? 'active' : ''}" @click=${this.toggleMic}
+                    ?disabled=${!this.isRecording && this.status === 'OFFLINE'}>
+                ${this.isRecording
+                    ? (this.status === 'CONNECTED' ? "VOICE LINK ACTIVE" : `VOICE LINK ${this.status}...`)
+                    : "ACTIVATE VOICE LINK"}
+            </button>
+            ${this.feedMode === 'LIVE' ? html`
+                <button class="${this.isRecordingFeed ? 'active' : ''}" @click=${this.toggleFeedRecording}>
+                    ${this.isRecordingFeed ? "STOP & SAVE TAPE" : "RECORD TAPE"}
+                </button>
+                <label class="file-button">
+                    LOAD TAPE
+                    <input type="file" accept=".jsonl" @change=${this.loadReplay}>
+                </label>
+                <select @change=${this.onReplaySpeed}>
+                    <option value="1">1X</option>
+                    <option value="10">10X</option>
+                    <option value="100">100X</option>
+                    <option value="max">MAX</option>
+                </select>
+            ` : html`
+                <button @click=${this.endReplay}>END REPLAY</button>
+            `}
+            <button class="${this.announcementsMuted ? '' : 'active'}" @click=${this.toggleAnnouncements}>
+                ${this.announcementsMuted ? "ANNOUNCE: MUTED" : "ANNOUNCE: ON"}
+            </button>
+            <button class="${this.duckOutput ? 'active' : ''}" @click=${this.toggleDucking}>
+                ${this.duckOutput ? "DUCK: ON" : "DUCK: OFF"}
             </button>
+            <div class="input-controls">
+                <select @change=${this.setInputMode} .value=${this.inputMode}>
+                    <option value="ALWAYS_ON">INPUT: ALWAYS ON</option>
+                    <option value="PUSH_TO_TALK">INPUT: PUSH TO TALK</option>
+                    <option value="VAD">INPUT: VAD</option>
+                </select>
+                ${this.inputMode === 'PUSH_TO_TALK' ? html`
+                    <button class="${this.userSpeaking ? 'active' : ''}" ?disabled=${!this.isRecording}
+                            @pointerdown=${() => this.pushToTalk(true)}
+                            @pointerup=${() => this.pushToTalk(false)}
+                            @pointerleave=${() => this.pushToTalk(false)}>
+                        HOLD TO TALK [SPACE]
+                    </button>
+                ` : ''}
+                <span class="meter" title="INPUT LEVEL">
+                    <span class="meter-fill ${this.userSpeaking ? 'speaking' : ''}"
+                          style="width: ${this.meterPercent(this.inputLevel)}%"></span>
+                </span>
+                <span class="label">${this.isRecording ? (this.userSpeaking ? 'TALKING' : 'LISTENING') : 'MIC OFF'}</span>
+            </div>
+            <label class="file-button">
+                LOAD STRATEGY
+                <input type="file" accept=".json" @change=${this.loadStrategy}>
+            </label>
         </div>
       </div>
     `;
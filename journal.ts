@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FeedStatus } from "./feed-adapters";
+import { TitanStatus, VoidState } from "./void-engine";
+
+export interface JournalEntry {
+  id?: number;
+  t: number;
+  symbol: string;
+  kind: "SIGNAL" | "REGIME";
+  from: string;
+  to: string;
+  price: number;
+  stars: number;
+  max_stars: number;
+  domain_state: string;
+  feed_status: FeedStatus;
+  titans: TitanStatus[];
+}
+
+const STORE = "entries";
+
+/** Promise for one IndexedDB request. */
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Records every signal and regime transition per symbol and persists it to
+ * IndexedDB so a session can be reviewed after a reload. Writes are fire
+ * and forget; if IndexedDB is unavailable the journal still works in
+ * memory for the current page.
+ */
+export class SignalJournal {
+  /** Newest last, capped at `keep` for the ledger. */
+  public entries: JournalEntry[] = [];
+
+  private db: IDBDatabase | null = null;
+  private last: Map<string, { signal: string; regime: string }> = new Map();
+
+  constructor(private db_name = "oracle-ledger", private keep = 500) {}
+
+  /**
+   * Open the store and load the most recent entries. Transitions journaled
+   * while the store was opening are kept after the loaded ones and written.
+   */
+  public async open(): Promise<JournalEntry[]> {
+    try {
+      const open = indexedDB.open(this.db_name, 1);
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("t", "t");
+      };
+      // Not assigned until loaded, so early entries are all still unwritten here.
+      const db = await request(open);
+      const all = await request(db.transaction(STORE).objectStore(STORE).getAll());
+      const early = this.entries;
+      this.db = db;
+      this.entries = [...(all as JournalEntry[]), ...early].slice(-this.keep);
+      for (const e of early) this.write(e);
+    } catch (e) {
+      console.warn(">>> JOURNAL: IndexedDB unavailable, keeping entries in memory", e);
+    }
+    return this.entries;
+  }
+
+  /** Compare against the symbol's previous state and journal any change. */
+  public observe(state: VoidState, t = Date.now()): JournalEntry[] {
+    const prev = this.last.get(state.symbol);
+    this.last.set(state.symbol, { signal: state.signal, regime: state.domain_state });
+    // The first reading per symbol is a baseline, not a transition.
+    if (!prev) return [];
+
+    const added: JournalEntry[] = [];
+    if (prev.regime !== state.domain_state) added.push(this.entry(state, t, "REGIME", prev.regime, state.domain_state));
+    if (prev.signal !== state.signal) added.push(this.entry(state, t, "SIGNAL", prev.signal, state.signal));
+
+    for (const e of added) this.append(e);
+    return added;
+  }
+
+  /** Every persisted entry, oldest first, for export. */
+  public async all(): Promise<JournalEntry[]> {
+    if (!this.db) return this.entries;
+    return await request(this.db.transaction(STORE).objectStore(STORE).getAll()) as JournalEntry[];
+  }
+
+  private entry(state: VoidState, t: number, kind: JournalEntry["kind"], from: string, to: string): JournalEntry {
+    return {
+      t,
+      symbol: state.symbol,
+      kind,
+      from,
+      to,
+      price: state.price,
+      stars: state.monolith_stars,
+      max_stars: state.monolith_max_stars,
+      domain_state: state.domain_state,
+      feed_status: state.feed_status,
+      titans: state.titans.map(ti => ({ ...ti })),
+    };
+  }
+
+  private append(entry: JournalEntry) {
+    this.entries.push(entry);
+    if (this.entries.length > this.keep) this.entries.splice(0, this.entries.length - this.keep);
+    this.write(entry);
+  }
+
+  private write(entry: JournalEntry) {
+    if (!this.db) return;
+    const req = this.db.transaction(STORE, "readwrite").objectStore(STORE).add(entry);
+    req.onsuccess = () => entry.id = req.result as number;
+    req.onerror = () => console.warn(">>> JOURNAL: write failed", req.error);
+  }
+}
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function journalToCSV(entries: JournalEntry[]): string {
+  const header = ["time", "symbol", "kind", "from", "to", "price", "stars", "max_stars", "domain_state", "feed_status", "titans"];
+  const rows = entries.map(e => [
+    new Date(e.t).toISOString(),
+    e.symbol,
+    e.kind,
+    e.from,
+    e.to,
+    e.price,
+    e.stars,
+    e.max_stars,
+    e.domain_state,
+    e.feed_status,
+    e.titans.map(t => `${t.name.replace(/\s+/g, " ")}=${t.value}${t.active ? "*" : ""}`).join("; "),
+  ].map(csvCell).join(","));
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+export function journalToJSON(entries: JournalEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
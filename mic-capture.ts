@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/// <reference types="vite/client" />
+import workletUrl from "./mic-worklet.ts?worker&url";
+import type { MicChunk, MicWorkletOptions } from "./mic-worklet";
+
+export interface MicCaptureOptions {
+  /** Rate of the posted PCM; the Live API expects 16 kHz. */
+  target_rate?: number;
+  /** Length of each posted chunk. Smaller is lower latency, more messages. */
+  chunk_ms?: number;
+  constraints?: MediaTrackConstraints;
+}
+
+/**
+ * Microphone capture on an AudioWorklet. The context runs at the device's
+ * native rate and the worklet resamples to `target_rate`, so chunks are
+ * 16 kHz whatever the browser does with a requested `sampleRate`.
+ */
+export class MicCapture {
+  public readonly target_rate: number;
+  public readonly chunk_ms: number;
+
+  public readonly context = new AudioContext();
+  /** Carries the raw mic signal for visualisers; silent while stopped. */
+  public readonly monitor = this.context.createGain();
+
+  private loaded: Promise<void> | null = null;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private constraints: MediaTrackConstraints;
+
+  constructor(private onChunk: (chunk: MicChunk) => void, options: MicCaptureOptions = {}) {
+    this.target_rate = options.target_rate ?? 16000;
+    this.chunk_ms = options.chunk_ms ?? 100;
+    this.constraints = options.constraints ?? { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+  }
+
+  public get running(): boolean {
+    return this.node !== null;
+  }
+
+  /** Device rate of the capture context. */
+  public get device_rate(): number {
+    return this.context.sampleRate;
+  }
+
+  public async start() {
+    if (this.node) return;
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: this.constraints });
+    try {
+      this.loaded ??= this.context.audioWorklet.addModule(workletUrl);
+      await this.loaded;
+      await this.context.resume();
+
+      const processorOptions: MicWorkletOptions = {
+        target_rate: this.target_rate,
+        chunk_samples: Math.round(this.target_rate * this.chunk_ms / 1000),
+      };
+      // No outputs: the node is a sink and is pulled without reaching the speakers.
+      this.node = new AudioWorkletNode(this.context, "mic-capture", {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: "explicit",
+        processorOptions,
+      });
+      this.node.port.onmessage = (e: MessageEvent<MicChunk>) => this.onChunk(e.data);
+      this.source = this.context.createMediaStreamSource(this.stream);
+      this.source.connect(this.node);
+      this.source.connect(this.monitor);
+    } catch (e) {
+      this.loaded = null;
+      this.stop();
+      throw e;
+    }
+  }
+
+  public stop() {
+    this.node?.port.postMessage({ type: "stop" });
+    this.node?.disconnect();
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.node = null;
+    this.source = null;
+    this.stream = null;
+  }
+}
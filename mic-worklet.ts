@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs in the AudioWorkletGlobalScope; bundled on its own by Vite.
+import { Resampler, rms } from "./resampler";
+
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, ctor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+export interface MicWorkletOptions {
+  target_rate: number;
+  chunk_samples: number;
+}
+
+/** Posted to the main thread; `pcm` is transferred, not copied. */
+export interface MicChunk {
+  pcm: Float32Array;
+  /** RMS of the chunk, 0..1. */
+  level: number;
+}
+
+/**
+ * Resamples the device-rate input to `target_rate` and posts fixed-size
+ * chunks. The processor never touches the DOM, so capture keeps running
+ * while the ledger re-renders.
+ */
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  private resampler: Resampler;
+  private chunk: Float32Array;
+  private filled = 0;
+  private active = true;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const opts = options?.processorOptions as MicWorkletOptions;
+    this.resampler = new Resampler(sampleRate, opts.target_rate);
+    this.chunk = new Float32Array(opts.chunk_samples);
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.type === "stop") this.active = false;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (channel && channel.length > 0) this.push(this.resampler.process(channel));
+    return this.active;
+  }
+
+  private push(samples: Float32Array) {
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(this.chunk.length - this.filled, samples.length - offset);
+      this.chunk.set(samples.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.chunk.length) {
+        const pcm = this.chunk;
+        this.port.postMessage({ pcm, level: rms(pcm) } satisfies MicChunk, [pcm.buffer]);
+        this.chunk = new Float32Array(pcm.length);
+        this.filled = 0;
+      }
+    }
+  }
+}
+
+registerProcessor("mic-capture", MicCaptureProcessor);
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Usage:
+ *   npm run mock-live -- [--port 9100] [--scenario turns.json]
+ *   npm run mock-live -- --goaway-after 60 --drop-after 300 --reject-resume
+ *
+ * Then run the app with LIVE_BASE_URL=http://localhost:9100 in .env.local.
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { MockLiveServer, MockScenario } from "./mock-live";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "9100" },
+    host: { type: "string", default: "localhost" },
+    scenario: { type: "string" },
+    "goaway-after": { type: "string", default: "0" },
+    "drop-after": { type: "string", default: "0" },
+    "reject-resume": { type: "boolean", default: false },
+  },
+});
+
+const scenario = values.scenario ? JSON.parse(readFileSync(values.scenario, "utf8")) as MockScenario : undefined;
+
+const server = new MockLiveServer({
+  port: Number(values.port),
+  host: values.host,
+  scenario,
+  goaway_after_ms: Number(values["goaway-after"]) * 1000,
+  drop_after_ms: Number(values["drop-after"]) * 1000,
+  reject_resume: values["reject-resume"],
+});
+
+const url = await server.start();
+console.log(`>>> MOCK LIVE: listening, set LIVE_BASE_URL=${url}`);
+
+process.on("SIGINT", () => server.stop().then(() => process.exit(0)));
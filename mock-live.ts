@@ -0,0 +1,385 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  LiveClientContent,
+  LiveClientMessage,
+  LiveClientRealtimeInput,
+  LiveClientSetup,
+  LiveClientToolResponse,
+  LiveServerMessage,
+} from "@google/genai";
+import { AddressInfo } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+
+export interface MockScenarioTurn {
+  /** Function call made before replying; the reply waits for the tool response. */
+  tool?: { name: string; args?: Record<string, unknown> };
+  /** Spoken reply. `{result}` is replaced with a summary of the tool response. */
+  say: string;
+}
+
+export interface MockScenario {
+  /** Replies to user turns, in order, wrapping around. */
+  turns: MockScenarioTurn[];
+}
+
+export const DEFAULT_SCENARIO: MockScenario = {
+  turns: [
+    { tool: { name: "get_market_metrics", args: {} }, say: "The Ledger reads {result}." },
+    { tool: { name: "explain_signal", args: {} }, say: "Titans consulted. {result}." },
+    { tool: { name: "get_paper_trading", args: {} }, say: "Paper book: {result}." },
+    { say: "The Monolith does not chat. Ask of the Titans." },
+  ],
+};
+
+export interface MockLiveOptions {
+  port?: number;
+  host?: string;
+  scenario?: MockScenario;
+  /** Send goAway this long after each connection opens, then close 5s later; 0 disables. */
+  goaway_after_ms?: number;
+  /** Drop each connection abruptly after this long; 0 disables. */
+  drop_after_ms?: number;
+  /** Refuse resumption handles, so every reconnect is a fresh conversation. */
+  reject_resume?: boolean;
+  /** Pace replies in real time; false streams them as fast as possible. */
+  realtime?: boolean;
+  log?: (line: string) => void;
+}
+
+/** Model output is 24 kHz mono PCM, as from the real endpoint. */
+const OUTPUT_RATE = 24000;
+const CHUNK_MS = 100;
+/** Input RMS (int16 normalized) above this is user speech. */
+const SPEECH_LEVEL = 0.02;
+/** Silence that ends a user turn under automatic activity detection. */
+const END_OF_TURN_MS = 700;
+
+/** Wire form of a server message: the SDK class without its convenience getters. */
+type ServerMessage = Omit<LiveServerMessage, "text" | "data">;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Stand-in for the Gemini Live endpoint, speaking the same JSON-over-WebSocket
+ * protocol as `client.live.connect` so the app runs with no key or network.
+ * Each user turn (activity markers, a text turn, or speech then silence
+ * under server-side detection) is answered from a scenario: an optional
+ * scripted `toolCall`, then a synthetic spoken reply with transcription.
+ * Talking over a reply interrupts it. Resumption handles, goAway, drops and
+ * errors can be scheduled or triggered from text turns: `/goaway`, `/drop`,
+ * `/error`, `/interrupt`.
+ */
+export class MockLiveServer {
+  private wss: WebSocketServer | null = null;
+  private sessions: Set<MockSession> = new Set();
+  private handles = 0;
+
+  constructor(private options: MockLiveOptions = {}) {}
+
+  /** Base URL for `httpOptions.baseUrl`; the SDK maps http to ws. */
+  public get url(): string {
+    const address = this.wss?.address() as AddressInfo | undefined;
+    return `http://${this.options.host ?? "localhost"}:${address?.port ?? this.options.port ?? 0}`;
+  }
+
+  public start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({ port: this.options.port ?? 9100, host: this.options.host ?? "localhost" });
+      wss.on("listening", () => resolve(this.url));
+      wss.on("error", reject);
+      wss.on("connection", (ws, req) => {
+        if (!req.url?.includes("BidiGenerateContent")) {
+          ws.close(1008, `Unknown endpoint ${req.url}`);
+          return;
+        }
+        const session = new MockSession(ws, this.options, () => `mock-handle-${++this.handles}`, this.log);
+        this.sessions.add(session);
+        ws.on("close", () => this.sessions.delete(session));
+      });
+      this.wss = wss;
+    });
+  }
+
+  public stop(): Promise<void> {
+    for (const s of this.sessions) s.close(1001, "server stopping");
+    return new Promise(resolve => {
+      if (!this.wss) return resolve();
+      this.wss.close(() => resolve());
+      this.wss = null;
+    });
+  }
+
+  private log = (line: string) => (this.options.log ?? console.log)(`>>> MOCK LIVE: ${line}`);
+}
+
+class MockSession {
+  private scenario: MockScenario;
+  private realtime: boolean;
+  private turn = 0;
+  private calls = 0;
+  private manual_activity = false;
+  private transcribe_in = false;
+  private transcribe_out = false;
+
+  private user_active = false;
+  private user_voiced_ms = 0;
+  private user_silence_ms = 0;
+  private pending_call: { id: string; say: string } | null = null;
+  private speaking: ReturnType<typeof setTimeout> | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private ws: WebSocket,
+    private options: MockLiveOptions,
+    private nextHandle: () => string,
+    private log: (line: string) => void,
+  ) {
+    this.scenario = options.scenario ?? DEFAULT_SCENARIO;
+    this.realtime = options.realtime ?? true;
+    ws.on("message", (data) => {
+      let msg: unknown;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        msg = undefined;
+      }
+      if (!isRecord(msg)) {
+        this.close(1007, "Invalid JSON");
+        return;
+      }
+      // Field shapes are the SDK's; the client under test is the SDK itself.
+      this.onMessage(msg as LiveClientMessage);
+    });
+    ws.on("close", () => this.clear());
+  }
+
+  public close(code: number, reason: string) {
+    this.clear();
+    if (this.ws.readyState === WebSocket.OPEN) this.ws.close(code, reason);
+  }
+
+  private onMessage(msg: LiveClientMessage) {
+    if (msg.setup) return this.onSetup(msg.setup);
+    if (msg.realtimeInput) return this.onRealtimeInput(msg.realtimeInput);
+    if (msg.clientContent) return this.onClientContent(msg.clientContent);
+    if (msg.toolResponse) return this.onToolResponse(msg.toolResponse);
+    this.log(`ignored message ${Object.keys(msg).join(",")}`);
+  }
+
+  private onSetup(setup: LiveClientSetup) {
+    const handle = setup.sessionResumption?.handle;
+    if (handle && this.options.reject_resume) {
+      this.log(`rejecting handle ${handle}`);
+      this.close(1008, "Session resumption handle is invalid");
+      return;
+    }
+    this.manual_activity = setup.realtimeInputConfig?.automaticActivityDetection?.disabled === true;
+    this.transcribe_in = setup.inputAudioTranscription !== undefined;
+    this.transcribe_out = setup.outputAudioTranscription !== undefined;
+    this.log(`setup ${setup.model}${handle ? ` resuming ${handle}` : ""}${this.manual_activity ? " (manual activity)" : ""}`);
+
+    this.send({ setupComplete: {} });
+    this.send({ sessionResumptionUpdate: { newHandle: this.nextHandle(), resumable: true } });
+
+    if (this.options.goaway_after_ms) this.timers.push(setTimeout(() => this.goAway(), this.options.goaway_after_ms));
+    if (this.options.drop_after_ms) this.timers.push(setTimeout(() => this.drop(), this.options.drop_after_ms));
+  }
+
+  private onRealtimeInput(input: LiveClientRealtimeInput) {
+    if (input.activityStart) {
+      this.user_active = true;
+      this.user_voiced_ms = 0;
+      if (this.speaking) this.interrupt();
+    }
+
+    const blob = input.audio ?? input.mediaChunks?.[0];
+    if (blob?.data) this.onAudio(Buffer.from(blob.data, "base64"), rateOf(blob.mimeType));
+
+    if (input.text) this.endUserTurn(input.text);
+    if (input.activityEnd || (input.audioStreamEnd && this.user_active)) this.endUserTurn();
+  }
+
+  private onAudio(bytes: Buffer, rate: number) {
+    // Copy: pooled Buffers are not guaranteed to be 2-byte aligned.
+    const samples = new Int16Array(new Uint8Array(bytes).buffer, 0, bytes.length >> 1);
+    let energy = 0;
+    for (const s of samples) energy += (s / 32768) ** 2;
+    const level = samples.length > 0 ? Math.sqrt(energy / samples.length) : 0;
+    const ms = samples.length / rate * 1000;
+
+    if (this.manual_activity) {
+      if (this.user_active) this.user_voiced_ms += ms;
+      return;
+    }
+
+    if (level > SPEECH_LEVEL) {
+      if (!this.user_active) this.user_voiced_ms = 0;
+      this.user_active = true;
+      this.user_voiced_ms += ms;
+      this.user_silence_ms = 0;
+      if (this.speaking) this.interrupt();
+    } else if (this.user_active) {
+      this.user_silence_ms += ms;
+      if (this.user_silence_ms >= END_OF_TURN_MS) this.endUserTurn();
+    }
+  }
+
+  private onClientContent(content: LiveClientContent) {
+    const text = (content.turns ?? [])
+      .flatMap(t => t.parts ?? [])
+      .map(p => p.text ?? "")
+      .join(" ")
+      .trim();
+    if (!content.turnComplete) return;
+
+    switch (text) {
+      case "/goaway": return this.goAway();
+      case "/drop": return this.drop();
+      case "/error": return this.close(1011, "Internal error encountered.");
+      case "/interrupt": return this.interrupt();
+    }
+    if (text.startsWith("[LEDGER EVENT]")) {
+      this.speak(text.replace("[LEDGER EVENT]", "").trim());
+      return;
+    }
+    this.endUserTurn(text);
+  }
+
+  private onToolResponse(response: LiveClientToolResponse) {
+    const responses = response.functionResponses ?? [];
+    const match = responses.find(r => r.id === this.pending_call?.id);
+    if (!match || !this.pending_call) {
+      this.log(`unexpected tool response ${responses.map(r => r.id).join(",")}`);
+      return;
+    }
+    const say = this.pending_call.say.replace("{result}", summarize(match.response));
+    this.pending_call = null;
+    this.speak(say);
+  }
+
+  private endUserTurn(text?: string) {
+    const heard = text ?? `[${(this.user_voiced_ms / 1000).toFixed(1)}s of speech]`;
+    this.user_active = false;
+    this.user_voiced_ms = 0;
+    this.user_silence_ms = 0;
+    if (this.transcribe_in) this.send({ serverContent: { inputTranscription: { text: heard } } });
+
+    const turns = this.scenario.turns;
+    if (turns.length === 0) return;
+    const next = turns[this.turn++ % turns.length];
+    if (next.tool) {
+      const id = `mock-call-${++this.calls}`;
+      this.pending_call = { id, say: next.say };
+      this.send({ toolCall: { functionCalls: [{ id, name: next.tool.name, args: next.tool.args ?? {} }] } });
+    } else {
+      this.speak(next.say);
+    }
+  }
+
+  /** Stream a synthetic voice reply with word-by-word output transcription. */
+  private speak(text: string) {
+    if (this.speaking) this.interrupt();
+    const words = text.split(/\s+/).filter(Boolean);
+    const pcm = synthesizeVoice(words.length);
+    const chunk = OUTPUT_RATE * CHUNK_MS / 1000;
+    const chunks = Math.ceil(pcm.length / chunk);
+    let i = 0;
+
+    const step = () => {
+      const part = pcm.subarray(i * chunk, (i + 1) * chunk);
+      const parts = [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_RATE}`, data: Buffer.from(part.buffer, part.byteOffset, part.byteLength).toString("base64") } }];
+      const from = Math.floor(i * words.length / chunks);
+      const said = words.slice(from, Math.floor((i + 1) * words.length / chunks));
+      this.send({
+        serverContent: {
+          modelTurn: { parts },
+          ...(this.transcribe_out && said.length > 0 ? { outputTranscription: { text: (from > 0 ? " " : "") + said.join(" ") } } : {}),
+        },
+      });
+      i++;
+      if (i < chunks) {
+        this.speaking = setTimeout(step, this.realtime ? CHUNK_MS : 0);
+      } else {
+        this.speaking = null;
+        this.send({ serverContent: { generationComplete: true } });
+        this.send({ serverContent: { turnComplete: true } });
+      }
+    };
+    this.speaking = setTimeout(step, 0);
+  }
+
+  private interrupt() {
+    if (!this.speaking) return;
+    clearTimeout(this.speaking);
+    this.speaking = null;
+    this.log("interrupted");
+    this.send({ serverContent: { interrupted: true } });
+  }
+
+  private goAway() {
+    this.log("goAway");
+    this.send({ goAway: { timeLeft: "5s" } });
+    this.timers.push(setTimeout(() => this.close(1000, "Session time limit reached"), 5000));
+  }
+
+  /** Lose the connection without a close handshake. */
+  private drop() {
+    this.log("dropping connection");
+    this.clear();
+    this.ws.terminate();
+  }
+
+  private clear() {
+    if (this.speaking) clearTimeout(this.speaking);
+    this.speaking = null;
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+
+  private send(msg: ServerMessage) {
+    if (this.ws.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(msg));
+  }
+}
+
+function rateOf(mime: string | undefined): number {
+  const m = /rate=(\d+)/.exec(mime ?? "");
+  return m ? Number(m[1]) : 16000;
+}
+
+/** One line describing a tool response for the canned reply. */
+function summarize(response: Record<string, unknown> | undefined): string {
+  if (!response) return "nothing";
+  const error = response.error;
+  if (error) return `error, ${String(isRecord(error) ? error.message ?? JSON.stringify(error) : error)}`;
+  const r = isRecord(response.result) ? response.result : response;
+  if (r.signal !== undefined && r.price !== undefined) {
+    return `${String(r.symbol).toUpperCase()} ${String(r.signal)}, ${String(r.monolith_stars ?? r.stars)} stars at ${Number(r.price).toFixed(2)}`;
+  }
+  if (r.signal !== undefined) return `${String(r.symbol ?? "").toUpperCase()} ${String(r.signal)} ${String(r.stars ?? "")}`.trim();
+  if (r.trades !== undefined) return `${String(r.trades)} trades, realized ${Number(r.realized_pnl).toFixed(2)}`;
+  const json = JSON.stringify(r);
+  return json.length > 80 ? json.slice(0, 77) + "..." : json;
+}
+
+/**
+ * A low, droning "voice": a 110 Hz tone with a few harmonics, one syllable
+ * envelope per word. Deterministic, so fixtures stay stable.
+ */
+export function synthesizeVoice(words: number): Int16Array {
+  const word_s = 0.25;
+  const n = Math.round(Math.max(0.6, words * word_s) * OUTPUT_RATE);
+  const pcm = new Int16Array(n);
+  for (let i = 0; i < n; i++) {
+    const t = i / OUTPUT_RATE;
+    const phase = (t % word_s) / word_s;
+    const envelope = Math.sin(Math.PI * phase) ** 2;
+    const tone = Math.sin(2 * Math.PI * 110 * t) + 0.5 * Math.sin(2 * Math.PI * 220 * t) + 0.25 * Math.sin(2 * Math.PI * 330 * t);
+    pcm[i] = Math.round(tone / 1.75 * envelope * 0.3 * 32767);
+  }
+  return pcm;
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Level = [number, number];
+
+/** Strictly ordered in `dir` (1 ascending, -1 descending) with no empty levels. */
+function isClean(levels: Level[], dir: 1 | -1): boolean {
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i][1] <= 0) return false;
+    if (i > 0 && (levels[i][0] - levels[i - 1][0]) * dir <= 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Levels standing `ratio` times above the median size on their side, the
+ * resting walls a ladder should call out. Best first, like the input.
+ */
+export function largeLevels(levels: readonly Level[], ratio = 3): Level[] {
+  if (levels.length < 3) return [];
+  const sizes = levels.map(([, q]) => q).sort((a, b) => a - b);
+  const median = sizes[Math.floor(sizes.length / 2)];
+  return levels.filter(([, q]) => q >= median * ratio);
+}
+
+/**
+ * Local top-of-book built from partial-depth snapshots. Each snapshot
+ * replaces the whole side, so levels that fall out of the top N disappear
+ * instead of lingering as they would if the snapshot were merged as a diff.
+ */
+export class OrderBook {
+  /** Best first: bids descending, asks ascending. */
+  private bids: Level[] = [];
+  private asks: Level[] = [];
+  private last_update_id = -1;
+
+  /**
+   * Replace both sides. Returns false when the snapshot is older than the
+   * one already applied (out-of-order delivery) and was ignored.
+   */
+  public replace(bids: Level[], asks: Level[], update_id?: number): boolean {
+    if (update_id !== undefined) {
+      if (update_id <= this.last_update_id) return false;
+      this.last_update_id = update_id;
+    }
+
+    // Venues send snapshots best-first already; only normalize when not.
+    this.bids = isClean(bids, -1) ? bids : bids.filter(([, q]) => q > 0).sort((a, b) => b[0] - a[0]);
+    this.asks = isClean(asks, 1) ? asks : asks.filter(([, q]) => q > 0).sort((a, b) => a[0] - b[0]);
+    return true;
+  }
+
+  public clear() {
+    this.bids = [];
+    this.asks = [];
+    this.last_update_id = -1;
+  }
+
+  public bestBid(): Level | null {
+    return this.bids.length > 0 ? this.bids[0] : null;
+  }
+
+  public bestAsk(): Level | null {
+    return this.asks.length > 0 ? this.asks[0] : null;
+  }
+
+  /** A crossed or one-sided book cannot be trusted for imbalance. */
+  public isValid(): boolean {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid !== null && ask !== null && bid[0] < ask[0];
+  }
+
+  public get bidLevels(): readonly Level[] {
+    return this.bids;
+  }
+
+  public get askLevels(): readonly Level[] {
+    return this.asks;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Level } from "./order-book";
+import { BookView, PaperTrader } from "./paper-trader";
+import { VoidState } from "./void-engine";
+
+const signal = (value: string, feed_status: VoidState["feed_status"] = "LIVE") =>
+  ({ symbol: "btcusdt", signal: value, feed_status }) as VoidState;
+
+const book = (bids: Level[], asks: Level[]): BookView => ({ bids, asks });
+
+/** Float-safe equality for money. */
+function near(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+describe("PaperTrader", () => {
+  it("opens on EXECUTE and books the move when an opposing signal flips it", () => {
+    const trader = new PaperTrader({ taker_fee_bps: 0, slippage_bps: 0, stop_loss_bps: 0 });
+    assert.deepEqual(trader.onState(signal("EXECUTE LONG"), book([[99, 50]], [[100, 50]]), 0), []);
+
+    const [closed] = trader.onState(signal("EXECUTE SHORT"), book([[104, 50]], [[105, 50]]), 1000);
+    assert.equal(closed.reason, "OPPOSING SIGNAL");
+    assert.equal(closed.qty, 10);
+    assert.equal(closed.entry_price, 100);
+    assert.equal(closed.exit_price, 104);
+    near(closed.pnl, 40);
+
+    const stats = trader.stats({ btcusdt: book([[101, 50]], [[102, 50]]) });
+    near(stats.realized_pnl, 40);
+    assert.equal(stats.wins, 1);
+    assert.equal(stats.positions[0].side, "SHORT");
+    // Short 1000/104 from 104, marked at the 102 ask.
+    near(stats.positions[0].unrealized_pnl, 2 * 1000 / 104);
+  });
+
+  it("charges taker fees on both legs and slippage on each fill", () => {
+    const trader = new PaperTrader({ taker_fee_bps: 4, slippage_bps: 1, stop_loss_bps: 0 });
+    trader.onState(signal("EXECUTE LONG"), book([[99, 50]], [[100, 50]]));
+    const [closed] = trader.onState(signal("EXECUTE SHORT"), book([[104, 50]], [[105, 50]]));
+
+    const entry = 100 * 1.0001;
+    const exit = 104 * 0.9999;
+    near(closed.entry_price, entry);
+    near(closed.exit_price, exit);
+    near(closed.fees, (entry + exit) * 10 * 0.0004);
+    near(closed.pnl, (exit - entry) * 10 - closed.fees);
+    // The flip opens a short of 1000/104 at the same fill.
+    near(trader.stats().fees_paid, closed.fees + exit * (1000 / 104) * 0.0004);
+  });
+
+  it("walks the book for size beyond the touch", () => {
+    const trader = new PaperTrader({ taker_fee_bps: 0, slippage_bps: 0 });
+    trader.onState(signal("EXECUTE LONG"), book([[99, 50]], [[100, 4], [101, 10]]));
+    near(trader.stats().positions[0].entry_price, (4 * 100 + 6 * 101) / 10);
+  });
+
+  it("stops out against the touch", () => {
+    const trader = new PaperTrader({ taker_fee_bps: 0, slippage_bps: 0, stop_loss_bps: 50 });
+    trader.onState(signal("EXECUTE LONG"), book([[99.9, 50]], [[100, 50]]));
+    assert.deepEqual(trader.onState(signal("EXECUTE LONG"), book([[99.6, 50]], [[99.7, 50]])), []);
+
+    const [closed] = trader.onState(signal("EXECUTE LONG"), book([[99.4, 50]], [[99.5, 50]]));
+    assert.equal(closed.reason, "STOP");
+    near(closed.pnl, -0.6 * 10);
+    assert.equal(trader.stats().win_rate, 0);
+  });
+
+  it("ignores repeats of the same signal and anything off a LIVE feed", () => {
+    const trader = new PaperTrader();
+    const b = book([[99.9, 50]], [[100, 50]]);
+    trader.onState(signal("EXECUTE SHORT", "STALE"), b);
+    assert.equal(trader.stats().positions.length, 0);
+
+    trader.onState(signal("EXECUTE SHORT"), b);
+    trader.onState(signal("EXECUTE SHORT"), b);
+    assert.equal(trader.stats().positions.length, 1);
+    assert.equal(trader.stats().trades, 0);
+  });
+});
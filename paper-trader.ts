@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Level } from "./order-book";
+import { VoidState } from "./void-engine";
+
+export type Side = "LONG" | "SHORT";
+
+export interface PaperPosition {
+  symbol: string;
+  side: Side;
+  qty: number;
+  entry_price: number;
+  opened_at: number;
+  /** Price levels; 0 when the stop/target is disabled. */
+  stop: number;
+  target: number;
+  entry_fee: number;
+}
+
+export interface ClosedTrade {
+  symbol: string;
+  side: Side;
+  qty: number;
+  entry_price: number;
+  exit_price: number;
+  opened_at: number;
+  closed_at: number;
+  fees: number;
+  /** Net of fees, in quote currency. */
+  pnl: number;
+  reason: "OPPOSING SIGNAL" | "STOP" | "TARGET";
+}
+
+export interface PaperStats {
+  positions: Array<PaperPosition & { unrealized_pnl: number }>;
+  realized_pnl: number;
+  fees_paid: number;
+  trades: number;
+  wins: number;
+  win_rate: number;
+  last_trades: ClosedTrade[];
+}
+
+export interface PaperTraderOptions {
+  /** Quote notional per entry, e.g. 1000 USDT. */
+  notional?: number;
+  taker_fee_bps?: number;
+  /** Extra adverse slippage on top of walking the book (latency, queue). */
+  slippage_bps?: number;
+  /** 0 disables. */
+  stop_loss_bps?: number;
+  take_profit_bps?: number;
+}
+
+export interface BookView {
+  bids: readonly Level[];
+  asks: readonly Level[];
+}
+
+/**
+ * Simulated execution of Monolith verdicts. Entries happen on the
+ * transition into EXECUTE LONG/SHORT; an opposing EXECUTE closes and flips
+ * the position; stops and targets are checked against the touch on every
+ * update. Fills walk the live book, so size and thin books cost what they
+ * would cost a taker.
+ */
+export class PaperTrader {
+  private notional: number;
+  private taker_fee_bps: number;
+  private slippage_bps: number;
+  private stop_loss_bps: number;
+  private take_profit_bps: number;
+
+  private positions: Map<string, PaperPosition> = new Map();
+  private last_signal: Map<string, string> = new Map();
+  private closed: ClosedTrade[] = [];
+  private realized = 0;
+  private fees = 0;
+  private wins = 0;
+
+  constructor(options: PaperTraderOptions = {}) {
+    this.notional = options.notional ?? 1000;
+    this.taker_fee_bps = options.taker_fee_bps ?? 4;
+    this.slippage_bps = options.slippage_bps ?? 1;
+    this.stop_loss_bps = options.stop_loss_bps ?? 50;
+    this.take_profit_bps = options.take_profit_bps ?? 0;
+  }
+
+  /** Feed every engine update; returns trades closed by this update. */
+  public onState(state: VoidState, book: BookView, t = Date.now()): ClosedTrade[] {
+    const closed: ClosedTrade[] = [];
+    if (state.feed_status !== "LIVE" || book.bids.length === 0 || book.asks.length === 0) return closed;
+
+    const pos = this.positions.get(state.symbol);
+    if (pos) {
+      const touch = pos.side === "LONG" ? book.bids[0][0] : book.asks[0][0];
+      const dir = pos.side === "LONG" ? 1 : -1;
+      if (pos.stop > 0 && (touch - pos.stop) * dir <= 0) closed.push(this.close(pos, book, t, "STOP"));
+      else if (pos.target > 0 && (touch - pos.target) * dir >= 0) closed.push(this.close(pos, book, t, "TARGET"));
+    }
+
+    const prev = this.last_signal.get(state.symbol);
+    this.last_signal.set(state.symbol, state.signal);
+    if (prev === state.signal) return closed;
+
+    const side: Side | null =
+      state.signal === "EXECUTE LONG" ? "LONG" : state.signal === "EXECUTE SHORT" ? "SHORT" : null;
+    if (!side) return closed;
+
+    const open = this.positions.get(state.symbol);
+    if (open && open.side === side) return closed;
+    if (open) closed.push(this.close(open, book, t, "OPPOSING SIGNAL"));
+    this.open(state.symbol, side, book, t);
+    return closed;
+  }
+
+  public stats(books: Record<string, BookView> = {}): PaperStats {
+    const trades = this.closed.length;
+    return {
+      positions: [...this.positions.values()].map(p => ({ ...p, unrealized_pnl: this.unrealized(p, books[p.symbol]) })),
+      realized_pnl: this.realized,
+      fees_paid: this.fees,
+      trades,
+      wins: this.wins,
+      win_rate: trades > 0 ? this.wins / trades : 0,
+      last_trades: this.closed.slice(-10),
+    };
+  }
+
+  public reset() {
+    this.positions.clear();
+    this.last_signal.clear();
+    this.closed = [];
+    this.realized = 0;
+    this.fees = 0;
+    this.wins = 0;
+  }
+
+  private open(symbol: string, side: Side, book: BookView, t: number) {
+    const levels = side === "LONG" ? book.asks : book.bids;
+    const qty = this.notional / levels[0][0];
+    const price = this.fillPrice(levels, qty, side === "LONG" ? 1 : -1);
+    const fee = price * qty * this.taker_fee_bps / 10000;
+    const dir = side === "LONG" ? 1 : -1;
+
+    this.fees += fee;
+    this.positions.set(symbol, {
+      symbol,
+      side,
+      qty,
+      entry_price: price,
+      opened_at: t,
+      stop: this.stop_loss_bps > 0 ? price * (1 - dir * this.stop_loss_bps / 10000) : 0,
+      target: this.take_profit_bps > 0 ? price * (1 + dir * this.take_profit_bps / 10000) : 0,
+      entry_fee: fee,
+    });
+  }
+
+  private close(pos: PaperPosition, book: BookView, t: number, reason: ClosedTrade["reason"]): ClosedTrade {
+    const levels = pos.side === "LONG" ? book.bids : book.asks;
+    const dir = pos.side === "LONG" ? 1 : -1;
+    const price = this.fillPrice(levels, pos.qty, -dir);
+    const exit_fee = price * pos.qty * this.taker_fee_bps / 10000;
+    const fees = pos.entry_fee + exit_fee;
+    const pnl = dir * (price - pos.entry_price) * pos.qty - fees;
+
+    this.positions.delete(pos.symbol);
+    this.fees += exit_fee;
+    this.realized += pnl;
+    if (pnl > 0) this.wins++;
+
+    const trade: ClosedTrade = {
+      symbol: pos.symbol,
+      side: pos.side,
+      qty: pos.qty,
+      entry_price: pos.entry_price,
+      exit_price: price,
+      opened_at: pos.opened_at,
+      closed_at: t,
+      fees,
+      pnl,
+      reason,
+    };
+    this.closed.push(trade);
+    return trade;
+  }
+
+  /**
+   * VWAP of taking `qty` from `levels` (best first), plus fixed slippage.
+   * Size beyond the visible book fills at the last level.
+   * `dir` is 1 for buys (price worse upward), -1 for sells.
+   */
+  private fillPrice(levels: readonly Level[], qty: number, dir: number): number {
+    let remaining = qty;
+    let cost = 0;
+    for (const [p, q] of levels) {
+      const take = Math.min(q, remaining);
+      cost += take * p;
+      remaining -= take;
+      if (remaining <= 0) break;
+    }
+    if (remaining > 0) cost += remaining * levels[levels.length - 1][0];
+    return (cost / qty) * (1 + dir * this.slippage_bps / 10000);
+  }
+
+  /** Mark-to-touch PnL, net of the entry fee. */
+  private unrealized(pos: PaperPosition, book?: BookView): number {
+    if (!book || book.bids.length === 0 || book.asks.length === 0) return -pos.entry_fee;
+    const dir = pos.side === "LONG" ? 1 : -1;
+    const touch = pos.side === "LONG" ? book.bids[0][0] : book.asks[0][0];
+    return dir * (touch - pos.entry_price) * pos.qty - pos.entry_fee;
+  }
+}
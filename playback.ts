@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { decode, decodeAudioData } from "./utils";
+
+export interface PlaybackOptions {
+  sample_rate?: number;
+  /** Output gain while ducked, 0..1. */
+  duck_gain?: number;
+  /** Gain ramp time constant for ducking (s). */
+  duck_ramp_s?: number;
+}
+
+/**
+ * Gapless playback of the model's PCM chunks. Every scheduled source is
+ * tracked so a reply can be cut off mid-sentence: `interrupt` stops what is
+ * playing, drops what is queued, and discards chunks still being decoded.
+ */
+export class AudioPlayback {
+  public readonly context: AudioContext;
+  public readonly output: GainNode;
+
+  private sample_rate: number;
+  private duck_gain: number;
+  private duck_ramp_s: number;
+  private sources: Set<AudioBufferSourceNode> = new Set();
+  private next_start_time = 0;
+  /** Bumped on interrupt; decodes started under an older epoch are dropped. */
+  private epoch = 0;
+  private ducked = false;
+
+  constructor(options: PlaybackOptions = {}) {
+    this.sample_rate = options.sample_rate ?? 24000;
+    this.duck_gain = options.duck_gain ?? 0.25;
+    this.duck_ramp_s = options.duck_ramp_s ?? 0.05;
+    this.context = new AudioContext({ sampleRate: this.sample_rate });
+    this.output = this.context.createGain();
+    this.output.connect(this.context.destination);
+  }
+
+  /** True while audio is playing or queued. */
+  public get speaking(): boolean {
+    return this.sources.size > 0 && this.next_start_time > this.context.currentTime;
+  }
+
+  /** Queue one base64 PCM chunk right after the previous one. */
+  public async enqueue(data: string) {
+    const epoch = this.epoch;
+    const buffer = await decodeAudioData(decode(data), this.context, this.sample_rate, 1);
+    if (epoch !== this.epoch) return;
+
+    this.next_start_time = Math.max(this.next_start_time, this.context.currentTime);
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output);
+    source.onended = () => this.sources.delete(source);
+    source.start(this.next_start_time);
+    this.sources.add(source);
+    this.next_start_time += buffer.duration;
+  }
+
+  /** Stop the current reply and flush everything queued behind it. */
+  public interrupt() {
+    this.epoch++;
+    for (const source of this.sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Not started yet in some browsers; disconnecting is enough.
+      }
+      source.disconnect();
+    }
+    this.sources.clear();
+    this.next_start_time = this.context.currentTime;
+  }
+
+  /** Lower the output while the user talks over the model. */
+  public duck(on: boolean) {
+    if (on === this.ducked) return;
+    this.ducked = on;
+    this.output.gain.setTargetAtTime(on ? this.duck_gain : 1, this.context.currentTime, this.duck_ramp_s);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RingBuffer, RollingStats, TimeWindowSum } from "./rolling";
+
+export type Regime =
+  | "CALCULATING"
+  | "STAGNATION"
+  | "EQUILIBRIUM"
+  | "VOLATILITY"
+  | "TRENDING_UP"
+  | "TRENDING_DOWN";
+
+export interface RegimeReading {
+  regime: Regime;
+  /** 0..1: how clearly the inputs back the current regime. */
+  confidence: number;
+}
+
+export interface RegimeOptions {
+  /**
+   * Fast/slow realized-volatility and trend windows in seconds; prices are
+   * sampled once per second. The other inputs use the fixed windows below.
+   */
+  fast_s?: number;
+  slow_s?: number;
+  /** A candidate must persist this long before it can take over (ms). */
+  confirm_ms?: number;
+  /** The current regime is held at least this long (ms). */
+  min_dwell_ms?: number;
+}
+
+/** Trade-intensity windows (ms). */
+const TRADES_FAST_MS = 10_000;
+const TRADES_SLOW_MS = 60_000;
+/** Book updates in the imbalance dispersion window (~12s at 100ms depth). */
+const IMBALANCE_SAMPLES = 120;
+/** Book updates in the fast and slow spread windows. */
+const SPREAD_FAST_SAMPLES = 10;
+const SPREAD_SLOW_SAMPLES = 600;
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/**
+ * Classifies the tape from four inputs: L1 imbalance dispersion on one short
+ * window, and realized price volatility, trade intensity and spread, each as
+ * a fast/slow ratio. Together they give a single "energy" score that places
+ * the market in STAGNATION / EQUILIBRIUM / VOLATILITY; a drift that is
+ * large against realized volatility on both windows overrides that with a
+ * trending regime. Switches need a confirmed candidate and a minimum dwell
+ * so the label does not flap tick by tick.
+ */
+export class RegimeClassifier {
+  private fast_s: number;
+  private slow_s: number;
+  private confirm_ms: number;
+  private min_dwell_ms: number;
+
+  private imbalance = new RollingStats(IMBALANCE_SAMPLES);
+  private spread_fast = new RollingStats(SPREAD_FAST_SAMPLES);
+  private spread_slow = new RollingStats(SPREAD_SLOW_SAMPLES);
+  private trades_fast: TimeWindowSum;
+  private trades_slow: TimeWindowSum;
+  private returns_fast: RollingStats;
+  private returns_slow: RollingStats;
+  private sampled: RingBuffer<number>;
+  private last_price = 0;
+  private next_sample_t = 0;
+
+  private current: RegimeReading = { regime: "CALCULATING", confidence: 0 };
+  private since = 0;
+  private candidate: Regime | null = null;
+  private candidate_since = 0;
+
+  constructor(options: RegimeOptions = {}) {
+    this.fast_s = options.fast_s ?? 30;
+    this.slow_s = options.slow_s ?? 300;
+    this.confirm_ms = options.confirm_ms ?? 3000;
+    this.min_dwell_ms = options.min_dwell_ms ?? 10000;
+
+    this.trades_fast = new TimeWindowSum(TRADES_FAST_MS);
+    this.trades_slow = new TimeWindowSum(TRADES_SLOW_MS);
+    this.returns_fast = new RollingStats(this.fast_s);
+    this.returns_slow = new RollingStats(this.slow_s);
+    this.sampled = new RingBuffer(this.slow_s + 1);
+  }
+
+  public reset() {
+    this.imbalance.clear();
+    this.spread_fast.clear();
+    this.spread_slow.clear();
+    this.trades_fast.clear();
+    this.trades_slow.clear();
+    this.returns_fast.clear();
+    this.returns_slow.clear();
+    this.sampled.clear();
+    this.last_price = 0;
+    this.next_sample_t = 0;
+    this.current = { regime: "CALCULATING", confidence: 0 };
+    this.since = 0;
+    this.candidate = null;
+  }
+
+  public onTrade(t: number, price: number) {
+    this.trades_fast.push(t, 1);
+    this.trades_slow.push(t, 1);
+    this.last_price = price;
+    this.sample(t);
+  }
+
+  public onBook(t: number, imbalance: number, spread_bps: number) {
+    this.imbalance.push(imbalance);
+    this.spread_fast.push(spread_bps);
+    this.spread_slow.push(spread_bps);
+    this.sample(t);
+  }
+
+  /** Re-evaluate at `t` and return the (possibly unchanged) regime. */
+  public classify(t: number): RegimeReading {
+    if (this.imbalance.length <= 10) return this.current;
+
+    const reading = this.evaluate(t);
+    if (this.current.regime === "CALCULATING") {
+      this.current = reading;
+      this.since = t;
+      return this.current;
+    }
+
+    if (reading.regime === this.current.regime) {
+      this.candidate = null;
+      this.current = reading;
+      return this.current;
+    }
+
+    if (reading.regime !== this.candidate) {
+      this.candidate = reading.regime;
+      this.candidate_since = t;
+    }
+    if (t - this.candidate_since >= this.confirm_ms && t - this.since >= this.min_dwell_ms) {
+      this.current = reading;
+      this.since = t;
+      this.candidate = null;
+    } else {
+      // Holding: report how much the evidence still backs the incumbent.
+      this.current = { regime: this.current.regime, confidence: clamp01(1 - reading.confidence) };
+    }
+    return this.current;
+  }
+
+  /** Sample the last price on a one-second grid for realized volatility. */
+  private sample(t: number) {
+    if (this.last_price <= 0 || t < this.next_sample_t) return;
+    this.next_sample_t = t + 1000;
+
+    const prev = this.sampled.last();
+    this.sampled.push(this.last_price);
+    if (prev !== undefined && prev > 0) {
+      const r = Math.log(this.last_price / prev);
+      this.returns_fast.push(r);
+      this.returns_slow.push(r);
+    }
+  }
+
+  /** Drift over the last `n` samples in units of realized volatility. */
+  private trendScore(n: number, vol: number): number {
+    const len = this.sampled.length;
+    if (len < 2 || vol <= 0) return 0;
+    const from = this.sampled.at(Math.max(0, len - 1 - n))!;
+    const steps = Math.min(n, len - 1);
+    return Math.log(this.sampled.last()! / from) / (vol * Math.sqrt(steps));
+  }
+
+  private evaluate(t: number): RegimeReading {
+    this.trades_fast.evict(t);
+    this.trades_slow.evict(t);
+
+    const obi_std = this.imbalance.stddev;
+    const vol_fast = this.returns_fast.stddev;
+    const vol_slow = this.returns_slow.stddev;
+    const rate_fast = this.trades_fast.sum / (TRADES_FAST_MS / 1000);
+    const rate_slow = this.trades_slow.sum / (TRADES_SLOW_MS / 1000);
+
+    // Ratios default to neutral (1) until the slow windows have data.
+    const vol_ratio = vol_slow > 0 ? vol_fast / vol_slow : 1;
+    const rate_ratio = rate_slow > 0 ? rate_fast / rate_slow : 1;
+    const spread_ratio = this.spread_slow.mean > 0 ? this.spread_fast.mean / this.spread_slow.mean : 1;
+
+    const energy =
+      0.4 * clamp01((obi_std - 0.1) / 0.25) +
+      0.3 * clamp01((vol_ratio - 0.7) / 0.8) +
+      0.2 * clamp01((rate_ratio - 0.7) / 1.3) +
+      0.1 * clamp01((spread_ratio - 0.8) / 0.7);
+
+    const trend_fast = this.trendScore(this.fast_s, vol_fast || vol_slow);
+    const trend_slow = this.trendScore(this.slow_s, vol_slow || vol_fast);
+    if (Math.sign(trend_fast) === Math.sign(trend_slow)) {
+      const trend = clamp01((Math.min(Math.abs(trend_fast), Math.abs(trend_slow)) - 1) / 2);
+      if (trend > 0.5) {
+        return { regime: trend_fast > 0 ? "TRENDING_UP" : "TRENDING_DOWN", confidence: trend };
+      }
+    }
+
+    if (energy > 2 / 3) return { regime: "VOLATILITY", confidence: clamp01((energy - 2 / 3) * 3) * 0.5 + 0.5 };
+    if (energy < 1 / 3) return { regime: "STAGNATION", confidence: clamp01((1 / 3 - energy) * 3) * 0.5 + 0.5 };
+    return { regime: "EQUILIBRIUM", confidence: 1 - Math.abs(energy - 0.5) * 3 };
+  }
+}
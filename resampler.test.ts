@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Resampler } from "./resampler";
+
+const BLOCK = 128;
+
+function tone(hz: number, rate: number, samples: number): Float32Array {
+  const out = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) out[i] = 0.5 * Math.sin(2 * Math.PI * hz * i / rate);
+  return out;
+}
+
+/** Feed `input` in worklet-sized blocks and join the outputs. */
+function inBlocks(resampler: Resampler, input: Float32Array, block = BLOCK): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < input.length; i += block) out.push(...resampler.process(input.subarray(i, i + block)));
+  return out;
+}
+
+describe("Resampler", () => {
+  it("emits one output per step of input, whatever the block size", () => {
+    const input = tone(440, 48000, 100 * BLOCK);
+    for (const block of [BLOCK, 100, 4096]) {
+      const out = inBlocks(new Resampler(48000, 16000), input, block);
+      assert.equal(out.length, Math.ceil(input.length / 3));
+    }
+    // 44.1 kHz has a fractional step; accumulated rounding may add one sample.
+    const odd = inBlocks(new Resampler(44100, 16000), tone(440, 44100, 441 * BLOCK)).length;
+    assert.ok(Math.abs(odd - 160 * BLOCK) <= 1, `${odd} samples`);
+  });
+
+  it("is seamless across block boundaries", () => {
+    const input = tone(1000, 48000, 50 * BLOCK);
+    const whole = [...new Resampler(48000, 16000).process(input)];
+    const blocks = inBlocks(new Resampler(48000, 16000), input);
+    assert.equal(blocks.length, whole.length);
+    for (let i = 0; i < whole.length; i++) assert.ok(Math.abs(blocks[i] - whole[i]) < 1e-5, `sample ${i}`);
+  });
+
+  it("passes an in-band tone and removes one above the output Nyquist", () => {
+    const level = (hz: number) => {
+      const out = inBlocks(new Resampler(48000, 16000), tone(hz, 48000, 100 * BLOCK)).slice(200);
+      return Math.sqrt(out.reduce((sum, v) => sum + v * v, 0) / out.length);
+    };
+    // A 0.5 amplitude sine has an RMS of 0.354.
+    assert.ok(Math.abs(level(1000) - 0.354) < 0.01);
+    assert.ok(level(12000) < 0.01);
+  });
+
+  it("passes the input through when the rates match", () => {
+    const input = tone(440, 16000, BLOCK);
+    assert.deepEqual(new Resampler(16000, 16000).process(input), input);
+  });
+
+  it("reuses its output buffer from block to block", () => {
+    const resampler = new Resampler(48000, 16000);
+    const first = resampler.process(tone(440, 48000, BLOCK));
+    const second = resampler.process(tone(440, 48000, BLOCK));
+    assert.equal(second.buffer, first.buffer);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface ResamplerOptions {
+  /** Kernel half-width in input samples at unity ratio; more taps, sharper cutoff. */
+  half_taps?: number;
+  /** Largest expected input block; buffers grow past it once if needed. */
+  max_block?: number;
+}
+
+/**
+ * Streaming band-limited resampler for mono PCM. Each output sample is a
+ * tabulated Blackman-windowed sinc over the surrounding input; when
+ * downsampling the kernel is stretched so its cutoff sits at the output
+ * Nyquist, which keeps 48 kHz speech from aliasing into the 16 kHz stream. Input arrives in
+ * arbitrary block sizes (128 frames in a worklet) and the filter history is
+ * carried across calls, so block boundaries are seamless. Buffers are
+ * allocated up front and reused, so the audio thread does not feed the GC.
+ */
+export class Resampler {
+  /** Input samples per output sample. */
+  private step: number;
+  private scale: number;
+  private half: number;
+  private table: Float32Array;
+
+  /** Samples of previous input kept at the front of `buf` for the kernel's left side. */
+  private keep: number;
+  /** History followed by the current block. */
+  private buf: Float32Array;
+  private out: Float32Array;
+  /** Position of the next output sample, in input samples, relative to the start of `buf`. */
+  private pos: number;
+
+  constructor(public readonly from_rate: number, public readonly to_rate: number, options: ResamplerOptions = {}) {
+    if (!(from_rate > 0) || !(to_rate > 0)) throw new Error(`Invalid resample ${from_rate} -> ${to_rate}`);
+    this.step = from_rate / to_rate;
+    // Below 1 the kernel is widened so it low-passes at the output Nyquist.
+    this.scale = Math.min(1, to_rate / from_rate);
+    this.half = Math.ceil((options.half_taps ?? 16) / this.scale);
+    this.table = buildKernel(this.half, this.scale);
+    this.keep = 2 * this.half;
+    this.buf = new Float32Array(0);
+    this.out = new Float32Array(0);
+    this.reserve(options.max_block ?? 128);
+    this.pos = this.half;
+  }
+
+  /**
+   * Resample one block. The result is a view of a buffer the next call
+   * overwrites; copy it out before then.
+   */
+  public process(input: Float32Array): Float32Array {
+    this.reserve(input.length);
+    if (this.from_rate === this.to_rate) {
+      this.out.set(input);
+      return this.out.subarray(0, input.length);
+    }
+
+    const used = this.keep + input.length;
+    this.buf.set(input, this.keep);
+
+    // Outputs are ready once the kernel's right side is inside the buffer.
+    const last = used - this.half;
+    const count = Math.max(0, Math.ceil((last - this.pos) / this.step));
+    for (let i = 0; i < count; i++) {
+      this.out[i] = this.sample(this.buf, this.pos);
+      this.pos += this.step;
+    }
+
+    // The tail of this block is the next call's history.
+    this.buf.copyWithin(0, input.length, used);
+    this.pos -= input.length;
+    return this.out.subarray(0, count);
+  }
+
+  public reset() {
+    this.buf.fill(0);
+    this.pos = this.half;
+  }
+
+  /** Size the buffers for blocks of `block` samples, keeping the history. */
+  private reserve(block: number) {
+    if (this.keep + block <= this.buf.length) return;
+    const buf = new Float32Array(this.keep + block);
+    buf.set(this.buf.subarray(0, this.keep));
+    this.buf = buf;
+    // One more than a block's worth covers the fractional carry in `pos`.
+    this.out = new Float32Array(Math.max(block, Math.ceil(block / this.step)) + 1);
+  }
+
+  private sample(buf: Float32Array, p: number): number {
+    const center = Math.floor(p);
+    let acc = 0;
+    let norm = 0;
+    for (let n = center - this.half + 1; n <= center + this.half; n++) {
+      const w = this.weight(Math.abs(p - n));
+      acc += buf[n] * w;
+      norm += w;
+    }
+    return norm !== 0 ? acc / norm : 0;
+  }
+
+  /** Kernel at distance `d` input samples, interpolated from the table. */
+  private weight(d: number): number {
+    const i = d * TABLE_RES;
+    const k = Math.floor(i);
+    if (k >= this.table.length - 1) return 0;
+    return this.table[k] + (this.table[k + 1] - this.table[k]) * (i - k);
+  }
+}
+
+/** Table entries per input sample of kernel distance. */
+const TABLE_RES = 64;
+
+/** sinc under a Blackman window, for distances 0..half input samples. */
+function buildKernel(half: number, scale: number): Float32Array {
+  const table = new Float32Array(half * TABLE_RES + 2);
+  for (let i = 0; i < table.length; i++) {
+    const d = i / TABLE_RES;
+    const u = d / half;
+    if (u >= 1) break;
+    const x = Math.PI * d * scale;
+    const sinc = x === 0 ? 1 : Math.sin(x) / x;
+    const a = Math.PI * (u + 1);
+    table[i] = sinc * (0.42 - 0.5 * Math.cos(a) + 0.08 * Math.cos(2 * a));
+  }
+  return table;
+}
+
+/** Root-mean-square level of a block, 0..1 for float PCM. */
+export function rms(pcm: Float32Array): number {
+  if (pcm.length === 0) return 0;
+  let energy = 0;
+  for (let i = 0; i < pcm.length; i++) energy += pcm[i] * pcm[i];
+  return Math.sqrt(energy / pcm.length);
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RingBuffer, RollingStats, TimeWindowSum } from "./rolling";
+
+describe("RingBuffer", () => {
+  it("evicts the oldest item once full and keeps order across the wrap", () => {
+    const ring = new RingBuffer<number>(3);
+    assert.equal(ring.push(1), undefined);
+    ring.push(2);
+    ring.push(3);
+    assert.equal(ring.push(4), 1);
+    assert.equal(ring.push(5), 2);
+    assert.deepEqual([...ring], [3, 4, 5]);
+    assert.equal(ring.first(), 3);
+    assert.equal(ring.last(), 5);
+    assert.equal(ring.at(3), undefined);
+  });
+
+  it("shifts from the head and refills behind it", () => {
+    const ring = new RingBuffer<number>(3);
+    for (const v of [1, 2, 3, 4]) ring.push(v);
+    assert.equal(ring.shift(), 2);
+    ring.push(5);
+    assert.deepEqual([...ring], [3, 4, 5]);
+    ring.clear();
+    assert.equal(ring.length, 0);
+    assert.equal(ring.shift(), undefined);
+  });
+});
+
+describe("TimeWindowSum", () => {
+  it("drops samples at or before the window edge", () => {
+    const flow = new TimeWindowSum(3000);
+    flow.push(0, 2);
+    flow.push(1000, 1.5);
+    flow.push(2000, -0.5);
+    assert.equal(flow.sum, 3);
+
+    flow.push(3000, 1);
+    assert.equal(flow.sum, 2);
+    assert.equal(flow.length, 3);
+
+    flow.evict(10_000);
+    assert.equal(flow.sum, 0);
+    assert.equal(flow.length, 0);
+  });
+
+  it("grows past its initial capacity instead of losing a burst", () => {
+    const flow = new TimeWindowSum(1000, 4);
+    for (let i = 0; i < 10; i++) flow.push(i, 1);
+    assert.equal(flow.length, 10);
+    assert.equal(flow.sum, 10);
+  });
+});
+
+describe("RollingStats", () => {
+  it("tracks mean and variance of the last N values", () => {
+    const stats = new RollingStats(4);
+    for (const v of [100, 1, 2, 3, 4]) stats.push(v);
+    assert.equal(stats.length, 4);
+    assert.equal(stats.total, 10);
+    assert.equal(stats.mean, 2.5);
+    assert.equal(stats.variance, 1.25);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Fixed-capacity windows with O(1) push. The engine runs these on every
+ * message, so nothing here may allocate or rescan per update.
+ */
+
+export class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private head = 0;
+  private count = 0;
+
+  constructor(public readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  /** Append, returning the evicted item once the buffer is full. */
+  public push(item: T): T | undefined {
+    let evicted: T | undefined;
+    if (this.count === this.capacity) {
+      evicted = this.items[this.head];
+      this.items[this.head] = item;
+      this.head = (this.head + 1) % this.capacity;
+    } else {
+      this.items[(this.head + this.count) % this.capacity] = item;
+      this.count++;
+    }
+    return evicted;
+  }
+
+  /** Remove and return the oldest item. */
+  public shift(): T | undefined {
+    if (this.count === 0) return undefined;
+    const item = this.items[this.head];
+    this.items[this.head] = undefined;
+    this.head = (this.head + 1) % this.capacity;
+    this.count--;
+    return item;
+  }
+
+  /** i = 0 is the oldest item. */
+  public at(i: number): T | undefined {
+    if (i < 0 || i >= this.count) return undefined;
+    return this.items[(this.head + i) % this.capacity];
+  }
+
+  public first(): T | undefined {
+    return this.at(0);
+  }
+
+  public last(): T | undefined {
+    return this.at(this.count - 1);
+  }
+
+  public clear() {
+    this.items.fill(undefined);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  get length() {
+    return this.count;
+  }
+
+  public *[Symbol.iterator]() {
+    for (let i = 0; i < this.count; i++) yield this.items[(this.head + i) % this.capacity] as T;
+  }
+}
+
+/**
+ * Running sum over the last `window_ms`. Samples must arrive in time order;
+ * the backing ring grows if a burst outruns its capacity.
+ */
+export class TimeWindowSum {
+  private samples: RingBuffer<{ t: number; v: number }>;
+  private total = 0;
+
+  constructor(private window_ms: number, initial_capacity = 1024) {
+    this.samples = new RingBuffer(initial_capacity);
+  }
+
+  public push(t: number, v: number) {
+    this.evict(t);
+    if (this.samples.length === this.samples.capacity) this.grow();
+    this.samples.push({ t, v });
+    this.total += v;
+  }
+
+  /** Drop samples older than the window ending at `now`. */
+  public evict(now: number) {
+    const cutoff = now - this.window_ms;
+    let oldest = this.samples.first();
+    while (oldest && oldest.t <= cutoff) {
+      this.total -= oldest.v;
+      this.samples.shift();
+      oldest = this.samples.first();
+    }
+    if (this.samples.length === 0) this.total = 0;
+  }
+
+  public clear() {
+    this.samples.clear();
+    this.total = 0;
+  }
+
+  get sum() {
+    return this.total;
+  }
+
+  get length() {
+    return this.samples.length;
+  }
+
+  private grow() {
+    const bigger = new RingBuffer<{ t: number; v: number }>(this.samples.capacity * 2);
+    for (const s of this.samples) bigger.push(s);
+    this.samples = bigger;
+  }
+}
+
+/** Mean and variance of the last N values via running sums. */
+export class RollingStats {
+  private values: RingBuffer<number>;
+  private sum = 0;
+  private sum_sq = 0;
+  private since_resync = 0;
+
+  constructor(capacity: number) {
+    this.values = new RingBuffer(capacity);
+  }
+
+  public push(v: number) {
+    const evicted = this.values.push(v);
+    this.sum += v;
+    this.sum_sq += v * v;
+    if (evicted !== undefined) {
+      this.sum -= evicted;
+      this.sum_sq -= evicted * evicted;
+    }
+
+    // Add/subtract drifts over millions of updates; rebase once per lap.
+    if (++this.since_resync >= this.values.capacity) {
+      this.since_resync = 0;
+      this.sum = 0;
+      this.sum_sq = 0;
+      for (const x of this.values) {
+        this.sum += x;
+        this.sum_sq += x * x;
+      }
+    }
+  }
+
+  public clear() {
+    this.values.clear();
+    this.sum = 0;
+    this.sum_sq = 0;
+    this.since_resync = 0;
+  }
+
+  get length() {
+    return this.values.length;
+  }
+
+  get total() {
+    return this.sum;
+  }
+
+  get mean() {
+    return this.values.length > 0 ? this.sum / this.values.length : 0;
+  }
+
+  /** Population variance, clamped against rounding below zero. */
+  get variance() {
+    const n = this.values.length;
+    if (n === 0) return 0;
+    const m = this.sum / n;
+    return Math.max(0, this.sum_sq / n - m * m);
+  }
+
+  get stddev() {
+    return Math.sqrt(this.variance);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// tslint:disable:no-new-decorators
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import type {DirectionRule} from './strategy';
+import {downsample} from './trend';
+
+const WIDTH = 120;
+const HEIGHT = 18;
+
+/**
+ * Inline sparkline for a titan's recent readings. With a threshold the range
+ * always reaches past it, and the zone where the titan fires is shaded, so a
+ * line creeping toward the band reads as pressure building.
+ */
+@customElement('void-sparkline')
+export class VoidSparkline extends LitElement {
+  /** Oldest first; non-finite readings are skipped. */
+  @property({attribute: false}) values: number[] = [];
+  @property({attribute: false}) threshold?: number;
+  @property() direction: DirectionRule = 'either';
+
+  private ctx: CanvasRenderingContext2D | null = null;
+
+  static styles = css`
+    :host {
+      display: inline-block;
+      vertical-align: middle;
+    }
+
+    canvas {
+      display: block;
+      width: ${WIDTH}px;
+      height: ${HEIGHT}px;
+    }
+  `;
+
+  protected firstUpdated() {
+    this.ctx = this.shadowRoot!.querySelector('canvas')!.getContext('2d');
+  }
+
+  protected updated() {
+    if (this.ctx) this.draw(this.ctx);
+  }
+
+  private draw(ctx: CanvasRenderingContext2D) {
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    const points = downsample(this.values.filter(Number.isFinite), WIDTH);
+    if (points.length === 0) return;
+
+    const bands = this.bands();
+    let lo = Math.min(...points);
+    let hi = Math.max(...points);
+    for (const level of bands) {
+      lo = Math.min(lo, level * 1.25, 0);
+      hi = Math.max(hi, level * 1.25, 0);
+    }
+    if (hi === lo) {
+      hi += 1;
+      lo -= 1;
+    }
+    const y = (v: number) => HEIGHT - 1 - ((v - lo) / (hi - lo)) * (HEIGHT - 2);
+
+    // Firing zones beyond each threshold, then the threshold lines.
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+    for (const level of bands) {
+      const edge = y(level);
+      if (level >= 0) ctx.fillRect(0, 0, WIDTH, edge);
+      else ctx.fillRect(0, edge, WIDTH, HEIGHT - edge);
+    }
+    ctx.strokeStyle = '#555';
+    ctx.setLineDash([2, 2]);
+    for (const level of bands) {
+      ctx.beginPath();
+      ctx.moveTo(0, Math.round(y(level)) + 0.5);
+      ctx.lineTo(WIDTH, Math.round(y(level)) + 0.5);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    const step = points.length > 1 ? (WIDTH - 2) / (points.length - 1) : 0;
+    ctx.strokeStyle = '#ddd';
+    ctx.beginPath();
+    points.forEach((v, i) => {
+      if (i === 0) ctx.moveTo(1 + i * step, y(v));
+      else ctx.lineTo(1 + i * step, y(v));
+    });
+    ctx.stroke();
+
+    const last = points[points.length - 1];
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(1 + (points.length - 1) * step - 1, y(last) - 1, 2, 2);
+  }
+
+  /** Threshold levels the reading must cross to fire, by direction. */
+  private bands(): number[] {
+    const t = this.threshold;
+    if (t === undefined || this.direction === 'equals') return [];
+    if (this.direction === 'long') return [t];
+    if (this.direction === 'short') return [-t];
+    return t === 0 ? [] : [t, -t];
+  }
+
+  protected render() {
+    return html`<canvas width=${WIDTH} height=${HEIGHT}></canvas>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'void-sparkline': VoidSparkline;
+  }
+}
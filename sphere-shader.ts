@@ -24,6 +24,8 @@ uniform float time;
 
 uniform vec4 inputData;
 uniform vec4 outputData;
+// x: ripple amplitude, y: ripple frequency, z: ripple phase, w: book pressure.
+uniform vec4 marketData;
 
 vec3 calc( vec3 pos ) {
 
@@ -31,7 +33,9 @@ vec3 calc( vec3 pos ) {
   vec3 p = dir + vec3( time, 0., 0. );
   return pos +
     1. * inputData.x * inputData.y * dir * (.5 + .5 * sin(inputData.z * pos.x + time)) +
-    1. * outputData.x * outputData.y * dir * (.5 + .5 * sin(outputData.z * pos.y + time))
+    1. * outputData.x * outputData.y * dir * (.5 + .5 * sin(outputData.z * pos.y + time)) +
+    marketData.x * dir * (.5 + .5 * sin(marketData.y * pos.z + marketData.z)) +
+    marketData.w * dir * max(dir.y, 0.)
   ;
 }
 
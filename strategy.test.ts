@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_STRATEGY, parseStrategy } from "./strategy";
+
+describe("parseStrategy", () => {
+  it("accepts the default strategy", () => {
+    assert.equal(parseStrategy(JSON.stringify(DEFAULT_STRATEGY)).name, "MONOLITH");
+  });
+
+  it("rejects a verdict side taken from a non-numeric metric", () => {
+    const def = { ...DEFAULT_STRATEGY, verdicts: [{ min_stars: 1, signal: "EXECUTE", side_from: "domain_state" }] };
+    assert.throws(() => parseStrategy(def), /side_from must be a numeric metric/);
+  });
+});
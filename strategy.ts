@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Declarative Monolith configuration. A strategy lists the titans that can
+ * each award one star and the verdict ladder that turns a star count into
+ * a signal. Definitions are plain JSON so desks can ship their own.
+ */
+
+/** Engine metrics a titan can read. */
+export type MetricSource =
+  | "void_kinetic"
+  | "void_pressure"
+  | "void_elasticity"
+  | "basis"
+  | "funding_rate"
+  | "domain_state"
+  | "whale_absorbed";
+
+/**
+ * When a titan is active:
+ * - "either": |value| > threshold
+ * - "long":   value > threshold
+ * - "short":  value < -threshold
+ * - "equals": value === equals (for string metrics such as domain_state)
+ */
+export type DirectionRule = "either" | "long" | "short" | "equals";
+
+export interface TitanDefinition {
+  label: string;
+  metric: MetricSource;
+  direction: DirectionRule;
+  threshold?: number;
+  equals?: string;
+  /** Counted for stars but not listed in the ledger. */
+  hidden?: boolean;
+}
+
+export interface VerdictStep {
+  min_stars: number;
+  signal: string;
+  /** Append LONG/SHORT from the sign of this metric. */
+  side_from?: MetricSource;
+}
+
+export interface StrategyDefinition {
+  name: string;
+  titans: TitanDefinition[];
+  /** Checked top to bottom; the first step the star count reaches wins. */
+  verdicts: VerdictStep[];
+  fallback: string;
+}
+
+export const DEFAULT_STRATEGY: StrategyDefinition = {
+  name: "MONOLITH",
+  titans: [
+    { label: "CTD (Kinetic)", metric: "void_kinetic", direction: "either", threshold: 50 },
+    { label: "OBI (Pressure)", metric: "void_pressure", direction: "either", threshold: 0.3 },
+    { label: "LQ  (Elasticity)", metric: "void_elasticity", direction: "either", threshold: 2.0 },
+    { label: "BASIS", metric: "basis", direction: "either", threshold: 0.0005 },
+    { label: "REGIME", metric: "domain_state", direction: "equals", equals: "VOLATILITY", hidden: true },
+    { label: "WA  (Whale)", metric: "whale_absorbed", direction: "either", threshold: 0 },
+  ],
+  verdicts: [
+    { min_stars: 4, signal: "EXECUTE", side_from: "void_kinetic" },
+    { min_stars: 3, signal: "PREPARE" },
+  ],
+  fallback: "STANDBY",
+};
+
+const METRICS: MetricSource[] = [
+  "void_kinetic", "void_pressure", "void_elasticity", "basis", "funding_rate", "domain_state", "whale_absorbed",
+];
+/** Metrics with a signed numeric reading, the only ones a verdict can take its side from. */
+const SIDE_METRICS: MetricSource[] = ["void_kinetic", "void_pressure", "void_elasticity", "basis", "funding_rate", "whale_absorbed"];
+const DIRECTIONS: DirectionRule[] = ["either", "long", "short", "equals"];
+
+/** Validate an untrusted definition (e.g. a desk's JSON file). */
+export function parseStrategy(input: string | unknown): StrategyDefinition {
+  const def = (typeof input === "string" ? JSON.parse(input) : input) as StrategyDefinition;
+  const fail = (msg: string): never => { throw new Error(`Invalid strategy: ${msg}`); };
+
+  if (!def || typeof def !== "object") fail("not an object");
+  if (typeof def.name !== "string" || !def.name) fail("missing name");
+  if (!Array.isArray(def.titans) || def.titans.length === 0) fail("titans must be a non-empty array");
+  if (!Array.isArray(def.verdicts)) fail("verdicts must be an array");
+  if (typeof def.fallback !== "string") fail("missing fallback signal");
+
+  def.titans.forEach((t, i) => {
+    if (typeof t.label !== "string") fail(`titans[${i}].label must be a string`);
+    if (!METRICS.includes(t.metric)) fail(`titans[${i}].metric "${t.metric}" is unknown`);
+    if (!DIRECTIONS.includes(t.direction)) fail(`titans[${i}].direction "${t.direction}" is unknown`);
+    if (t.direction === "equals") {
+      if (typeof t.equals !== "string") fail(`titans[${i}].equals is required for direction "equals"`);
+    } else if (typeof t.threshold !== "number" || !isFinite(t.threshold)) {
+      fail(`titans[${i}].threshold must be a number`);
+    }
+  });
+
+  def.verdicts.forEach((v, i) => {
+    if (typeof v.min_stars !== "number") fail(`verdicts[${i}].min_stars must be a number`);
+    if (typeof v.signal !== "string") fail(`verdicts[${i}].signal must be a string`);
+    if (v.side_from !== undefined && !SIDE_METRICS.includes(v.side_from)) {
+      fail(`verdicts[${i}].side_from must be a numeric metric (${SIDE_METRICS.join(", ")})`);
+    }
+  });
+
+  return { ...def, verdicts: [...def.verdicts].sort((a, b) => b.min_stars - a.min_stars) };
+}
+
+/** Whether a titan fires for a metric reading. */
+export function isTitanActive(titan: TitanDefinition, value: number | string): boolean {
+  if (titan.direction === "equals") return value === titan.equals;
+  if (typeof value !== "number") return false;
+
+  const threshold = titan.threshold ?? 0;
+  switch (titan.direction) {
+    case "long": return value > threshold;
+    case "short": return value < -threshold;
+    default: return Math.abs(value) > threshold;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FeedEvent, MemoryFeedAdapter } from './feed-adapters';
+import { PaperTrader } from './paper-trader';
+import { DEFAULT_STRATEGY, StrategyDefinition } from './strategy';
+import { MARKET_TOOLS, ToolContext, ToolError, ToolRegistry } from './tools';
+import { VoidEngine } from './void-engine';
+
+/** Registry over one BTC engine that has seen `seconds` of a rising tape. */
+function harness(seconds = 120) {
+  let now = 0;
+  let strategy: StrategyDefinition = DEFAULT_STRATEGY;
+  const feed = new MemoryFeedAdapter();
+  const engine = new VoidEngine(undefined, { adapter: feed, clock: () => now, every: () => () => {} });
+  engine.connect();
+  for (let i = 0; i < seconds; i++) {
+    now = i * 1000;
+    const price = 100 + i * 0.1;
+    const events: FeedEvent[] = [
+      { kind: 'book', bids: [[price - 0.05, 3], [price - 0.15, 1]], asks: [[price + 0.05, 1], [price + 0.15, 1]], time: now },
+      { kind: 'trade', price, qty: 1, is_buyer_maker: false, time: now },
+    ];
+    feed.push(...events);
+  }
+
+  const symbols = ['btcusdt'];
+  const focused: string[] = [];
+  const ctx: ToolContext = {
+    symbols: () => symbols,
+    focusedSymbol: () => 'btcusdt',
+    state: symbol => (symbol === 'btcusdt' ? engine.state : undefined),
+    engine: symbol => (symbol === 'btcusdt' ? engine : undefined),
+    focus: symbol => {
+      focused.push(symbol);
+      if (!symbols.includes(symbol)) symbols.push(symbol);
+    },
+    strategy: () => strategy,
+    setStrategy: s => strategy = s,
+    paperStats: () => new PaperTrader().stats(),
+  };
+  const registry = new ToolRegistry(ctx);
+  for (const tool of MARKET_TOOLS) registry.register(tool);
+
+  /** The handler's result, failing the test on an error response. */
+  const result = (name: string, args: Record<string, unknown> = {}) => {
+    const response = registry.call({ id: 'call-1', name, args }).response!;
+    assert.equal(response.error, undefined, JSON.stringify(response.error));
+    return response.result as Record<string, unknown>;
+  };
+  /** The error code of a call expected to fail. */
+  const error = (name: string, args: Record<string, unknown> = {}) =>
+    (registry.call({ id: 'call-1', name, args }).response!.error as { code: string }).code;
+
+  return { engine, ctx, registry, focused, result, error, strategy: () => strategy };
+}
+
+describe('ToolRegistry', () => {
+  it('answers with the call id and name, and reports unknown tools', () => {
+    const h = harness(1);
+    const response = h.registry.call({ id: 'abc', name: 'nope', args: {} });
+    assert.equal(response.id, 'abc');
+    assert.equal(response.name, 'nope');
+    assert.deepEqual(response.response, { error: { code: 'UNKNOWN_TOOL', message: 'No tool named "nope"' } });
+  });
+
+  it('validates arguments against the declared schema', () => {
+    const h = harness(1);
+    assert.equal(h.error('set_symbol'), 'INVALID_ARGUMENT');
+    assert.equal(h.error('get_market_metrics', { symbol: 'btc', extra: 1 }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('get_market_metrics', { symbol: 42 }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('get_titan_history', { seconds: 1.5 }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('get_titan_history', { seconds: 901 }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('get_metric_trend', { window: '2h' }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('set_titan_threshold', { titan: 'OBI', threshold: -1 }), 'INVALID_ARGUMENT');
+    assert.equal(h.error('set_titan_threshold', { titan: 'OBI', threshold: Infinity }), 'INVALID_ARGUMENT');
+  });
+
+  it('turns a handler crash into an INTERNAL error', t => {
+    const h = harness(1);
+    const log = t.mock.method(console, 'error', () => {});
+    h.registry.register({
+      declaration: { name: 'broken' },
+      handler: () => { throw new Error('boom'); },
+    });
+    assert.deepEqual(h.registry.call({ name: 'broken' }).response, { error: { code: 'INTERNAL', message: 'boom' } });
+    assert.equal(log.mock.callCount(), 1);
+  });
+});
+
+describe('MARKET_TOOLS', () => {
+  it('get_market_metrics reads the focused or a named tracked symbol', () => {
+    const h = harness();
+    assert.equal(h.result('get_market_metrics').symbol, 'btcusdt');
+    assert.equal(h.result('get_market_metrics', { symbol: 'BTC' }).price, h.engine.state.price);
+    assert.equal(h.error('get_market_metrics', { symbol: 'ETH' }), 'NOT_FOUND');
+  });
+
+  it('get_titan_history returns the one-second snapshots in the window', () => {
+    const h = harness();
+    const snapshots = h.result('get_titan_history', { seconds: 10 }).snapshots as Array<{ t: number }>;
+    assert.deepEqual(snapshots.map(s => s.t), [109, 110, 111, 112, 113, 114, 115, 116, 117, 118, 119].map(s => s * 1000));
+  });
+
+  it('get_titan_history thins a long window to 60 evenly spaced snapshots', () => {
+    const h = harness();
+    const history = h.result('get_titan_history', { seconds: 900 });
+    const snapshots = history.snapshots as Array<{ t: number }>;
+    assert.equal(history.total, 120);
+    assert.equal(snapshots.length, 60);
+    assert.equal(snapshots[0].t, 0);
+    assert.equal(snapshots[59].t, 119_000);
+    for (let i = 1; i < 60; i++) assert.ok(snapshots[i].t - snapshots[i - 1].t <= 3000);
+  });
+
+  it('get_metric_trend reports a rising price with a short series', () => {
+    const h = harness();
+    const trends = h.result('get_metric_trend', { window: '1m' }).trends as Array<Record<string, unknown>>;
+    assert.deepEqual(trends.map(t => t.metric), ['price', 'void_kinetic', 'void_pressure', 'void_elasticity', 'basis']);
+
+    const price = trends[0];
+    assert.equal(price.samples, 61);
+    assert.ok(Math.abs((price.slope_per_min as number) - 6) < 1e-6);
+    assert.equal((price.series as number[]).length, 20);
+    // No mark stream: basis has no finite samples.
+    assert.deepEqual(trends[4], { metric: 'basis', samples: 0 });
+
+    const one = h.result('get_metric_trend', { metric: 'void_pressure' }).trends as Array<Record<string, unknown>>;
+    assert.equal(one.length, 1);
+    assert.equal(one[0].last, 0.5);
+  });
+
+  it('explain_signal lists each titan with its rule and reading, and the ladder', () => {
+    const h = harness();
+    const explained = h.result('explain_signal');
+    const titans = explained.titans as Array<Record<string, unknown>>;
+    const obi = titans.find(t => t.metric === 'void_pressure')!;
+    assert.equal(obi.label, 'OBI (Pressure)');
+    assert.equal(obi.rule, 'either beyond 0.3');
+    assert.equal(obi.active, true);
+    assert.equal(titans.find(t => t.metric === 'domain_state')!.rule, 'equals VOLATILITY');
+    assert.deepEqual(explained.ladder, ['4+ stars: EXECUTE (side from void_kinetic)', '3+ stars: PREPARE', 'otherwise: STANDBY']);
+    assert.equal(explained.suspended, false);
+  });
+
+  it('set_symbol focuses a normalized symbol and rejects junk', () => {
+    const h = harness(1);
+    assert.deepEqual(h.result('set_symbol', { symbol: 'eth' }), { focused: 'ethusdt', tracked: ['btcusdt', 'ethusdt'] });
+    assert.deepEqual(h.focused, ['ethusdt']);
+    assert.equal(h.error('set_symbol', { symbol: '!!' }), 'INVALID_ARGUMENT');
+  });
+
+  it('set_symbol reports a symbol the ledger cannot track instead of focusing it', () => {
+    const h = harness(1);
+    h.ctx.focus = symbol => { throw new ToolError('NOT_FOUND', `${symbol} is not in the replay`); };
+    assert.equal(h.error('set_symbol', { symbol: 'sol' }), 'NOT_FOUND');
+  });
+
+  it('set_titan_threshold changes one titan by label prefix or metric', () => {
+    const h = harness(1);
+    assert.deepEqual(h.result('set_titan_threshold', { titan: 'obi', threshold: 0.4 }), { titan: 'OBI (Pressure)', previous: 0.3, threshold: 0.4 });
+    assert.equal(h.strategy().titans.find(t => t.metric === 'void_pressure')!.threshold, 0.4);
+    assert.equal(h.result('set_titan_threshold', { titan: 'void_kinetic', threshold: 10 }).previous, 50);
+
+    assert.equal(h.error('set_titan_threshold', { titan: 'XYZ', threshold: 1 }), 'NOT_FOUND');
+    assert.equal(h.error('set_titan_threshold', { titan: 'REGIME', threshold: 1 }), 'INVALID_ARGUMENT');
+    assert.equal(DEFAULT_STRATEGY.titans[1].threshold, 0.3);
+  });
+
+  it('get_paper_trading returns the paper book', () => {
+    const h = harness(1);
+    assert.deepEqual(h.result('get_paper_trading'), new PaperTrader().stats());
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Schema, Type } from '@google/genai';
+import { PaperStats } from './paper-trader';
+import { MetricSource, StrategyDefinition, isTitanActive } from './strategy';
+import { HISTORY_WINDOW_SECONDS, HistoryWindow, downsample, metricTrend, thin } from './trend';
+import { HISTORY_METRICS, HistoryMetric, VoidEngine, VoidState, normalizeSymbol } from './void-engine';
+
+/** What tools may read and change; implemented by the ledger element. */
+export interface ToolContext {
+  symbols(): string[];
+  focusedSymbol(): string;
+  state(symbol: string): VoidState | undefined;
+  engine(symbol: string): VoidEngine | undefined;
+  /** Focus a symbol, starting to track it if needed; throws NOT_FOUND when it cannot be tracked. */
+  focus(symbol: string): void;
+  strategy(): StrategyDefinition;
+  /** Apply a strategy to every engine. */
+  setStrategy(strategy: StrategyDefinition): void;
+  paperStats(): PaperStats;
+}
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENT' | 'NOT_FOUND' | 'UNAVAILABLE' | 'INTERNAL';
+
+/** Thrown by handlers; reported to the model as a structured error. */
+export class ToolError extends Error {
+  constructor(public readonly code: ToolErrorCode, message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration;
+  handler: (args: Record<string, unknown>, ctx: ToolContext) => unknown;
+}
+
+/** Check call arguments against the declared parameter schema. */
+function validateArgs(schema: Schema | undefined, args: Record<string, unknown>) {
+  const props = schema?.properties || {};
+  for (const name of schema?.required || []) {
+    if (args[name] === undefined || args[name] === null) {
+      throw new ToolError('INVALID_ARGUMENT', `Missing required argument "${name}"`);
+    }
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const prop = props[name];
+    if (!prop) throw new ToolError('INVALID_ARGUMENT', `Unknown argument "${name}"`);
+    if (value === undefined || value === null) continue;
+
+    switch (prop.type) {
+      case Type.STRING:
+        if (typeof value !== 'string') throw new ToolError('INVALID_ARGUMENT', `"${name}" must be a string`);
+        if (prop.enum && !prop.enum.includes(value)) {
+          throw new ToolError('INVALID_ARGUMENT', `"${name}" must be one of ${prop.enum.join(', ')}`);
+        }
+        break;
+      case Type.NUMBER:
+      case Type.INTEGER:
+        if (typeof value !== 'number' || !isFinite(value)) throw new ToolError('INVALID_ARGUMENT', `"${name}" must be a number`);
+        if (prop.type === Type.INTEGER && !Number.isInteger(value)) throw new ToolError('INVALID_ARGUMENT', `"${name}" must be an integer`);
+        if (prop.minimum !== undefined && value < prop.minimum) throw new ToolError('INVALID_ARGUMENT', `"${name}" must be >= ${prop.minimum}`);
+        if (prop.maximum !== undefined && value > prop.maximum) throw new ToolError('INVALID_ARGUMENT', `"${name}" must be <= ${prop.maximum}`);
+        break;
+      case Type.BOOLEAN:
+        if (typeof value !== 'boolean') throw new ToolError('INVALID_ARGUMENT', `"${name}" must be a boolean`);
+        break;
+    }
+  }
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  constructor(private ctx: ToolContext) {}
+
+  public register(tool: ToolDefinition) {
+    this.tools.set(tool.declaration.name!, tool);
+    return this;
+  }
+
+  public declarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(t => t.declaration);
+  }
+
+  /** Run one model function call; never throws. */
+  public call(fc: FunctionCall): FunctionResponse {
+    const name = fc.name || '';
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) throw new ToolError('UNKNOWN_TOOL', `No tool named "${name}"`);
+      const args = fc.args || {};
+      validateArgs(tool.declaration.parameters, args);
+      return { id: fc.id, name, response: { result: tool.handler(args, this.ctx) } };
+    } catch (e) {
+      const err = e instanceof ToolError ? e : new ToolError('INTERNAL', (e as Error).message);
+      if (!(e instanceof ToolError)) console.error(e);
+      return { id: fc.id, name, response: { error: { code: err.code, message: err.message } } };
+    }
+  }
+}
+
+/** Resolve the optional `symbol` argument to a tracked symbol. */
+function resolveSymbol(args: Record<string, unknown>, ctx: ToolContext): string {
+  if (!args.symbol) return ctx.focusedSymbol();
+  const symbol = normalizeSymbol(args.symbol as string);
+  if (!ctx.symbols().includes(symbol)) {
+    throw new ToolError('NOT_FOUND', `${symbol.toUpperCase()} is not on the ledger. Tracked: ${ctx.symbols().join(', ').toUpperCase()}. Use set_symbol to add it.`);
+  }
+  return symbol;
+}
+
+function requireState(symbol: string, ctx: ToolContext): VoidState {
+  const state = ctx.state(symbol);
+  if (!state) throw new ToolError('UNAVAILABLE', `${symbol.toUpperCase()} has no data yet`);
+  return state;
+}
+
+/** A titan's reading from published state; whale absorption lives only in the engine. */
+function stateReading(state: VoidState, metric: MetricSource): number | string | undefined {
+  return metric === 'whale_absorbed' ? undefined : state[metric];
+}
+
+/** Snapshots per history answer; longer windows are thinned evenly. */
+const MAX_TITAN_SNAPSHOTS = 60;
+
+const SYMBOL_ARG: Schema = { type: Type.STRING, description: 'Asset or pair, e.g. ETH or SOLUSDT. Omit for the focused symbol.' };
+
+export const MARKET_TOOLS: ToolDefinition[] = [
+  {
+    declaration: {
+      name: 'get_market_metrics',
+      description: 'Read the Ledger for one symbol: price, titans, stars, signal, regime, basis, funding and feed status.',
+      parameters: { type: Type.OBJECT, properties: { symbol: SYMBOL_ARG } },
+    },
+    handler: (args, ctx) => requireState(resolveSymbol(args, ctx), ctx),
+  },
+  {
+    declaration: {
+      name: 'get_titan_history',
+      description: 'Snapshots of stars, signal, regime and titan values over a recent window: one per second, ' +
+        'thinned to at most 60 evenly spaced ones over longer windows.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          symbol: SYMBOL_ARG,
+          seconds: { type: Type.INTEGER, description: 'Window length, default 60.', minimum: 1, maximum: 900 },
+        },
+      },
+    },
+    handler: (args, ctx) => {
+      const symbol = resolveSymbol(args, ctx);
+      const engine = ctx.engine(symbol);
+      if (!engine) throw new ToolError('UNAVAILABLE', `${symbol.toUpperCase()} engine is not running`);
+      const snapshots = engine.titanHistory((args.seconds as number) ?? 60);
+      return { symbol, total: snapshots.length, snapshots: thin(snapshots, MAX_TITAN_SNAPSHOTS) };
+    },
+  },
+  {
+    declaration: {
+      name: 'get_metric_trend',
+      description: 'Trend of CTD (void_kinetic), OBI (void_pressure), LQ (void_elasticity), basis and price over a window: slope, ' +
+        'whether the magnitude is BUILDING or FADING, and a short series. Use for questions like "is momentum increasing?".',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          symbol: SYMBOL_ARG,
+          window: { type: Type.STRING, enum: Object.keys(HISTORY_WINDOW_SECONDS), description: 'Default 1m.' },
+          metric: { type: Type.STRING, enum: HISTORY_METRICS, description: 'Omit for every metric.' },
+        },
+      },
+    },
+    handler: (args, ctx) => {
+      const symbol = resolveSymbol(args, ctx);
+      const engine = ctx.engine(symbol);
+      if (!engine) throw new ToolError('UNAVAILABLE', `${symbol.toUpperCase()} engine is not running`);
+      const span = (args.window as HistoryWindow | undefined) ?? '1m';
+      const samples = engine.metricHistory(HISTORY_WINDOW_SECONDS[span]);
+      const metrics = args.metric ? [args.metric as HistoryMetric] : HISTORY_METRICS;
+      return {
+        symbol,
+        window: span,
+        trends: metrics.map(metric => {
+          const trend = metricTrend(samples, metric);
+          if (!trend) return { metric, samples: 0 };
+          const series = samples.map(s => s[metric]).filter(Number.isFinite);
+          return { ...trend, series: downsample(series, 20) };
+        }),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'explain_signal',
+      description: 'Explain the current verdict: each titan with its metric, rule, threshold, reading and whether it fired, plus the verdict ladder.',
+      parameters: { type: Type.OBJECT, properties: { symbol: SYMBOL_ARG } },
+    },
+    handler: (args, ctx) => {
+      const symbol = resolveSymbol(args, ctx);
+      const state = requireState(symbol, ctx);
+      const strategy = ctx.strategy();
+      return {
+        symbol,
+        strategy: strategy.name,
+        signal: state.signal,
+        stars: `${state.monolith_stars}/${state.monolith_max_stars}`,
+        feed_status: state.feed_status,
+        suspended: state.feed_status !== 'LIVE',
+        titans: strategy.titans.map(t => {
+          const shown = state.titans.find(s => s.name === t.label);
+          const value = stateReading(state, t.metric) ?? '';
+          return {
+            label: t.label.replace(/\s+/g, ' '),
+            metric: t.metric,
+            rule: t.direction === 'equals' ? `equals ${t.equals}` : `${t.direction} beyond ${t.threshold}`,
+            reading: shown?.value ?? value,
+            active: shown ? shown.active : isTitanActive(t, value),
+          };
+        }),
+        ladder: [
+          ...strategy.verdicts.map(v => `${v.min_stars}+ stars: ${v.signal}${v.side_from ? ` (side from ${v.side_from})` : ''}`),
+          `otherwise: ${strategy.fallback}`,
+        ],
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'set_symbol',
+      description: 'Focus the ledger on a symbol, starting to track it if it is not on the watchlist.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { symbol: { type: Type.STRING, description: 'Asset or pair, e.g. ETH or SOLUSDT.' } },
+        required: ['symbol'],
+      },
+    },
+    handler: (args, ctx) => {
+      const symbol = normalizeSymbol(args.symbol as string);
+      if (!/^[a-z0-9]{5,20}$/.test(symbol)) throw new ToolError('INVALID_ARGUMENT', `"${args.symbol}" is not a symbol`);
+      ctx.focus(symbol);
+      return { focused: symbol, tracked: ctx.symbols() };
+    },
+  },
+  {
+    declaration: {
+      name: 'set_titan_threshold',
+      description: 'Change the threshold of one titan for every tracked symbol, e.g. titan "OBI" to 0.4.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          titan: { type: Type.STRING, description: 'Titan label prefix (CTD, OBI, LQ, BASIS, WA) or metric name.' },
+          threshold: { type: Type.NUMBER, description: 'New threshold, in the titan\'s own units.', minimum: 0 },
+        },
+        required: ['titan', 'threshold'],
+      },
+    },
+    handler: (args, ctx) => {
+      const key = (args.titan as string).trim().toUpperCase();
+      const strategy = ctx.strategy();
+      const matches = strategy.titans.filter(t =>
+        t.label.toUpperCase().startsWith(key) || t.metric.toUpperCase() === key);
+      if (matches.length === 0) throw new ToolError('NOT_FOUND', `No titan matches "${args.titan}"`);
+      if (matches.length > 1) throw new ToolError('INVALID_ARGUMENT', `"${args.titan}" is ambiguous: ${matches.map(t => t.label).join(', ')}`);
+
+      const target = matches[0];
+      if (target.direction === 'equals') throw new ToolError('INVALID_ARGUMENT', `${target.label} has no numeric threshold`);
+
+      const previous = target.threshold;
+      ctx.setStrategy({
+        ...strategy,
+        titans: strategy.titans.map(t => t === target ? { ...t, threshold: args.threshold as number } : t),
+      });
+      return { titan: target.label.replace(/\s+/g, ' '), previous, threshold: args.threshold };
+    },
+  },
+  {
+    declaration: {
+      name: 'get_paper_trading',
+      description: 'Read the paper-trading book: open positions with unrealized PnL, realized PnL, fees, win rate and recent closed trades.',
+      parameters: { type: Type.OBJECT, properties: {} },
+    },
+    handler: (_args, ctx) => ctx.paperStats(),
+  },
+];
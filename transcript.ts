@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { request } from "./journal";
+
+export type Speaker = "USER" | "MONOLITH" | "LEDGER";
+
+export interface TranscriptLine {
+  /** `<session_id>#<seq>`, so a line can be rewritten while it streams in. */
+  id: string;
+  session_id: string;
+  /** Time of the first fragment. */
+  t: number;
+  speaker: Speaker;
+  text: string;
+  /** The model was cut off before finishing this line. */
+  interrupted?: boolean;
+}
+
+const STORE = "lines";
+
+/**
+ * Both sides of the voice session as text. Transcription arrives as
+ * fragments; consecutive fragments from the same speaker are joined into
+ * one line until the other side speaks or the speaker pauses. Lines are
+ * written to IndexedDB as they grow, grouped by Live session, so a spoken
+ * verdict can be checked after the fact.
+ */
+export class TranscriptLog {
+  /** Newest last, capped at `keep` for the ledger. */
+  public lines: TranscriptLine[] = [];
+
+  private db: IDBDatabase | null = null;
+  private session_id = "";
+  private seq = 0;
+  private open_line: TranscriptLine | null = null;
+  private last_fragment_at = 0;
+
+  constructor(private db_name = "oracle-transcripts", private keep = 200, private pause_ms = 2000) {}
+
+  /**
+   * Open the store and load the most recent lines. Lines transcribed while
+   * it was opening follow the loaded ones and are written once it is ready;
+   * one still streaming keeps growing in place.
+   */
+  public async open(): Promise<TranscriptLine[]> {
+    try {
+      const open = indexedDB.open(this.db_name, 1);
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("t", "t");
+      };
+      // Not assigned until loaded, so early lines are all still unwritten here.
+      const db = await request(open);
+      const all = await request(db.transaction(STORE).objectStore(STORE).index("t").getAll());
+      const early = this.lines;
+      this.db = db;
+      this.lines = [...(all as TranscriptLine[]), ...early].slice(-this.keep);
+      for (const line of early) this.write(line);
+    } catch (e) {
+      console.warn(">>> TRANSCRIPT: IndexedDB unavailable, keeping lines in memory", e);
+    }
+    return this.lines;
+  }
+
+  /** Start a new Live session; later lines are grouped under it. */
+  public startSession(t = Date.now()): string {
+    this.close();
+    this.session_id = new Date(t).toISOString();
+    this.seq = 0;
+    return this.session_id;
+  }
+
+  /** Add a streamed fragment. Returns true if the visible lines changed. */
+  public append(speaker: Speaker, fragment: string, t = Date.now()): boolean {
+    if (!fragment) return false;
+    if (!this.session_id) this.startSession(t);
+
+    const line = this.open_line;
+    if (line && line.speaker === speaker && t - this.last_fragment_at < this.pause_ms) {
+      line.text += fragment;
+    } else {
+      this.close();
+      this.open_line = {
+        id: `${this.session_id}#${this.seq++}`,
+        session_id: this.session_id,
+        t,
+        speaker,
+        text: fragment.trimStart(),
+      };
+      this.lines.push(this.open_line);
+      if (this.lines.length > this.keep) this.lines.splice(0, this.lines.length - this.keep);
+    }
+    this.last_fragment_at = t;
+    this.write(this.open_line!);
+    return true;
+  }
+
+  /** A whole line at once, e.g. a ledger event pushed to the model. */
+  public say(speaker: Speaker, text: string, t = Date.now()) {
+    this.append(speaker, text, t);
+    this.close();
+  }
+
+  /** The model was cut off; mark its current line and end it. */
+  public interrupt() {
+    if (this.open_line?.speaker !== "MONOLITH") return;
+    this.open_line.interrupted = true;
+    this.write(this.open_line);
+    this.close();
+  }
+
+  /** End the current line; the next fragment starts a new one. */
+  public close() {
+    this.open_line = null;
+  }
+
+  /** Every persisted line, oldest first, for export. */
+  public async all(): Promise<TranscriptLine[]> {
+    if (!this.db) return this.lines;
+    return await request(this.db.transaction(STORE).objectStore(STORE).index("t").getAll()) as TranscriptLine[];
+  }
+
+  private write(line: TranscriptLine) {
+    if (!this.db) return;
+    const req = this.db.transaction(STORE, "readwrite").objectStore(STORE).put({ ...line });
+    req.onerror = () => console.warn(">>> TRANSCRIPT: write failed", req.error);
+  }
+}
+
+export function transcriptToText(lines: TranscriptLine[]): string {
+  let session = "";
+  const out: string[] = [];
+  for (const line of lines) {
+    if (line.session_id !== session) {
+      session = line.session_id;
+      if (out.length > 0) out.push("");
+      out.push(`=== SESSION ${session} ===`);
+    }
+    out.push(`[${new Date(line.t).toISOString()}] ${line.speaker}: ${line.text.trim()}${line.interrupted ? " [INTERRUPTED]" : ""}`);
+  }
+  return out.join("\n") + "\n";
+}
+
+export function transcriptToJSON(lines: TranscriptLine[]): string {
+  return JSON.stringify(lines, null, 2);
+}
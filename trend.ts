@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HistoryMetric, MetricSample } from "./void-engine";
+
+export type HistoryWindow = "1m" | "5m" | "15m";
+
+export const HISTORY_WINDOW_SECONDS: Record<HistoryWindow, number> = { "1m": 60, "5m": 300, "15m": 900 };
+
+export interface MetricTrend {
+  metric: HistoryMetric;
+  samples: number;
+  first: number;
+  last: number;
+  min: number;
+  max: number;
+  /** Least-squares slope in metric units per minute. */
+  slope_per_min: number;
+  /** Mean |value| over the older and the newer half of the window. */
+  early_magnitude: number;
+  late_magnitude: number;
+  /** BUILDING: moving away from zero (pressure growing); FADING: toward it. */
+  magnitude: "BUILDING" | "FADING" | "STEADY";
+}
+
+/** Late/early magnitude ratio that counts as building (or its inverse, fading). */
+const MAGNITUDE_CHANGE = 1.15;
+
+/** Trend of one metric over the samples; null with fewer than two readings. */
+export function metricTrend(samples: MetricSample[], metric: HistoryMetric): MetricTrend | null {
+  const points = samples.filter(s => Number.isFinite(s[metric]));
+  if (points.length < 2) return null;
+
+  const t0 = points[0].t;
+  let sum_x = 0, sum_y = 0, sum_xy = 0, sum_xx = 0;
+  let min = Infinity, max = -Infinity;
+  for (const s of points) {
+    const x = (s.t - t0) / 60_000;
+    const y = s[metric];
+    sum_x += x;
+    sum_y += y;
+    sum_xy += x * y;
+    sum_xx += x * x;
+    min = Math.min(min, y);
+    max = Math.max(max, y);
+  }
+  const n = points.length;
+  const denominator = n * sum_xx - sum_x * sum_x;
+  const slope = denominator > 0 ? (n * sum_xy - sum_x * sum_y) / denominator : 0;
+
+  const half = Math.floor(n / 2);
+  const early = meanAbs(points.slice(0, half), metric);
+  const late = meanAbs(points.slice(half), metric);
+  let magnitude: MetricTrend["magnitude"] = "STEADY";
+  if (late > early * MAGNITUDE_CHANGE) magnitude = "BUILDING";
+  else if (late * MAGNITUDE_CHANGE < early) magnitude = "FADING";
+
+  return {
+    metric,
+    samples: n,
+    first: points[0][metric],
+    last: points[n - 1][metric],
+    min,
+    max,
+    slope_per_min: slope,
+    early_magnitude: early,
+    late_magnitude: late,
+    magnitude,
+  };
+}
+
+/** Reduce to at most `points` bucket means, keeping the shape of the series. */
+export function downsample(values: number[], points: number): number[] {
+  if (values.length <= points) return values;
+  const out: number[] = [];
+  for (let i = 0; i < points; i++) {
+    const from = Math.floor(i * values.length / points);
+    const to = Math.floor((i + 1) * values.length / points);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += values[j];
+    out.push(sum / (to - from));
+  }
+  return out;
+}
+
+/** Pick at most `points` items spread evenly, keeping the first and the last. */
+export function thin<T>(items: T[], points: number): T[] {
+  if (items.length <= points) return items;
+  const out: T[] = [];
+  for (let i = 0; i < points; i++) out.push(items[Math.round(i * (items.length - 1) / (points - 1))]);
+  return out;
+}
+
+function meanAbs(samples: MetricSample[], metric: HistoryMetric): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (const s of samples) sum += Math.abs(s[metric]);
+  return sum / samples.length;
+}
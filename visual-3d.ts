@@ -10,6 +10,7 @@
 import {LitElement, css, html} from 'lit';
 import {customElement, property} from 'lit/decorators.js';
 import {Analyser} from './analyser';
+import type {VoidState} from './void-engine';
 
 import * as THREE from 'three';
 import {EXRLoader} from 'three/addons/loaders/EXRLoader.js';
@@ -21,8 +22,42 @@ import {FXAAShader} from 'three/addons/shaders/FXAAShader.js';
 import {fs as backdropFS, vs as backdropVS} from './backdrop-shader';
 import {vs as sphereVS} from './sphere-shader';
 
+/** Sphere colour, glow and backdrop tint for one market regime. */
+interface RegimePalette {
+  color: number;
+  emissive: number;
+  backdrop: number;
+}
+
+const PALETTES: Record<string, RegimePalette> = {
+  CALCULATING: {color: 0x000010, emissive: 0x000010, backdrop: 0x100c14},
+  STAGNATION: {color: 0x020214, emissive: 0x06082a, backdrop: 0x0a0c18},
+  EQUILIBRIUM: {color: 0x001010, emissive: 0x00302c, backdrop: 0x081412},
+  VOLATILITY: {color: 0x140008, emissive: 0x50081c, backdrop: 0x1c0810},
+  TRENDING_UP: {color: 0x001404, emissive: 0x0a4010, backdrop: 0x081608},
+  TRENDING_DOWN: {color: 0x140600, emissive: 0x4a1800, backdrop: 0x1a0c06},
+};
+
+/** Used while the feed is not LIVE, so a stale market reads as dead. */
+const OFFLINE_PALETTE: RegimePalette = {
+  color: 0x080808,
+  emissive: 0x101010,
+  backdrop: 0x0c0c0c,
+};
+
+/** The backdrop shader takes raw values, so its tint skips colour management. */
+function backdropColor(hex: number, target = new THREE.Color()) {
+  return target.setHex(hex, THREE.LinearSRGBColorSpace);
+}
+
+/** Per-frame fraction of the way palette and glow move toward the market. */
+const MARKET_EASE = 0.03;
+
 /**
- * 3D live audio visual.
+ * 3D live audio visual. Voice levels drive the deformation as before; the
+ * market state adds its own: order book pressure bulges the sphere toward the
+ * heavier side, kinetic energy adds faster ripples, the Monolith's stars set
+ * the glow and the regime picks the palette.
  */
 @customElement('gdm-live-audio-visuals-3d')
 export class GdmLiveAudioVisuals3D extends LitElement {
@@ -32,8 +67,26 @@ export class GdmLiveAudioVisuals3D extends LitElement {
   private backdrop!: THREE.Mesh;
   private composer!: EffectComposer;
   private sphere!: THREE.Mesh;
+  private bloomPass!: UnrealBloomPass;
   private prevTime = 0;
   private rotation = new THREE.Vector3(0, 0, 0);
+  private marketTime = 0;
+  private frame = 0;
+  private onResize: (() => void) | null = null;
+
+  /** Eased toward the targets from `market` every frame. */
+  private palette = {
+    color: new THREE.Color(PALETTES.CALCULATING.color),
+    emissive: new THREE.Color(PALETTES.CALCULATING.emissive),
+    backdrop: backdropColor(PALETTES.CALCULATING.backdrop),
+  };
+  private scratch = new THREE.Color();
+  private glow = 0;
+  private pressure = 0;
+  private kinetic = 0;
+
+  /** Latest engine state; the orb idles in its default palette without it. */
+  @property({attribute: false}) market?: VoidState;
 
   private _outputNode!: AudioNode;
 
@@ -75,6 +128,13 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     super.connectedCallback();
   }
 
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.frame);
+    if (this.onResize) window.removeEventListener('resize', this.onResize);
+    this.onResize = null;
+  }
+
   private init() {
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(0x100c14);
@@ -85,6 +145,7 @@ export class GdmLiveAudioVisuals3D extends LitElement {
         uniforms: {
           resolution: {value: new THREE.Vector2(1, 1)},
           rand: {value: 0},
+          tint: {value: this.palette.backdrop},
         },
         vertexShader: backdropVS,
         fragmentShader: backdropFS,
@@ -135,6 +196,7 @@ export class GdmLiveAudioVisuals3D extends LitElement {
       shader.uniforms.time = {value: 0};
       shader.uniforms.inputData = {value: new THREE.Vector4()};
       shader.uniforms.outputData = {value: new THREE.Vector4()};
+      shader.uniforms.marketData = {value: new THREE.Vector4()};
 
       sphereMaterial.userData.shader = shader;
 
@@ -149,12 +211,12 @@ export class GdmLiveAudioVisuals3D extends LitElement {
 
     const renderPass = new RenderPass(scene, camera);
 
-    const bloomPass = new UnrealBloomPass(
+    const bloomPass = (this.bloomPass = new UnrealBloomPass(
       new THREE.Vector2(window.innerWidth, window.innerHeight),
       5,
       0.5,
       0,
-    );
+    ));
 
     const fxaaPass = new ShaderPass(FXAAShader);
 
@@ -181,16 +243,18 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     }
 
     window.addEventListener('resize', onWindowResize);
+    this.onResize = onWindowResize;
     onWindowResize();
 
     this.animation();
   }
 
   private animation() {
-    requestAnimationFrame(() => this.animation());
+    this.frame = requestAnimationFrame(() => this.animation());
 
     this.inputAnalyser.update();
     this.outputAnalyser.update();
+    this.updateMarket();
 
     const t = performance.now();
     const dt = (t - this.prevTime) / (1000 / 60);
@@ -199,6 +263,10 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     const sphereMaterial = this.sphere.material as THREE.MeshStandardMaterial;
 
     backdropMaterial.uniforms.rand.value = Math.random() * 10000;
+    sphereMaterial.color.copy(this.palette.color);
+    sphereMaterial.emissive.copy(this.palette.emissive);
+    sphereMaterial.emissiveIntensity = 0.75 + 1.5 * this.glow;
+    this.bloomPass.strength = 1.5 + 3.5 * this.glow;
 
     if (sphereMaterial.userData.shader) {
       this.sphere.scale.setScalar(
@@ -236,11 +304,46 @@ export class GdmLiveAudioVisuals3D extends LitElement {
         (10 * this.outputAnalyser.data[2]) / 255,
         0,
       );
+
+      this.marketTime += dt * (0.01 + 0.05 * this.kinetic);
+      sphereMaterial.userData.shader.uniforms.marketData.value.set(
+        0.15 * this.kinetic,
+        2 + 6 * this.kinetic,
+        this.marketTime,
+        0.3 * this.pressure,
+      );
     }
 
     this.composer.render();
   }
 
+  /** Ease palette, glow and deformation toward the current market state. */
+  private updateMarket() {
+    const m = this.market;
+    const live = m?.feed_status === 'LIVE';
+    const target =
+      m && !live
+        ? OFFLINE_PALETTE
+        : (PALETTES[m?.domain_state ?? 'CALCULATING'] ?? PALETTES.CALCULATING);
+    const stars =
+      live && m.monolith_max_stars > 0
+        ? m.monolith_stars / m.monolith_max_stars
+        : 0;
+    const pressure = live ? THREE.MathUtils.clamp(m.void_pressure, -1, 1) : 0;
+    // CTD is unbounded; the strategy's trigger sits around 50.
+    const kinetic = live ? Math.tanh(Math.abs(m.void_kinetic) / 100) : 0;
+
+    this.palette.color.lerp(this.scratch.setHex(target.color), MARKET_EASE);
+    this.palette.emissive.lerp(this.scratch.setHex(target.emissive), MARKET_EASE);
+    this.palette.backdrop.lerp(
+      backdropColor(target.backdrop, this.scratch),
+      MARKET_EASE,
+    );
+    this.glow += (stars - this.glow) * MARKET_EASE;
+    this.pressure += (pressure - this.pressure) * MARKET_EASE;
+    this.kinetic += (kinetic - this.kinetic) * MARKET_EASE;
+  }
+
   protected firstUpdated() {
     this.canvas = this.shadowRoot!.querySelector('canvas') as HTMLCanvasElement;
     this.init();
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RingBuffer } from "./rolling";
+
+export type InputMode = "ALWAYS_ON" | "PUSH_TO_TALK" | "VAD";
+
+export interface SpeechDetectorOptions {
+  /** RMS below this is never speech, whatever the noise floor. */
+  min_level?: number;
+  /** Speech must be this many times louder than the tracked noise floor. */
+  snr?: number;
+  /** Zero-crossing rate band (crossings per sample) that counts as voice. */
+  zcr_min?: number;
+  zcr_max?: number;
+  /** Voiced time needed before speech starts. */
+  attack_ms?: number;
+  /** Silence tolerated before speech ends. */
+  hangover_ms?: number;
+}
+
+/** Fraction of adjacent samples that change sign. */
+export function zeroCrossingRate(pcm: Float32Array): number {
+  if (pcm.length < 2) return 0;
+  let crossings = 0;
+  for (let i = 1; i < pcm.length; i++) {
+    if ((pcm[i - 1] >= 0) !== (pcm[i] >= 0)) crossings++;
+  }
+  return crossings / (pcm.length - 1);
+}
+
+/**
+ * Energy and zero-crossing speech detector for mic chunks. Voice sits well
+ * above the room's noise floor at a moderate ZCR; key clicks are loud but
+ * broadband (high ZCR) and hum is low ZCR, so both are rejected. An attack
+ * time ignores short bursts and a hangover keeps pauses between words from
+ * splitting an utterance.
+ */
+export class SpeechDetector {
+  public speaking = false;
+
+  private min_level: number;
+  private snr: number;
+  private zcr_min: number;
+  private zcr_max: number;
+  private attack_ms: number;
+  private hangover_ms: number;
+
+  private noise_floor = 0.005;
+  private voiced_since = -1;
+  private last_voiced_at = -Infinity;
+
+  constructor(options: SpeechDetectorOptions = {}) {
+    this.min_level = options.min_level ?? 0.015;
+    this.snr = options.snr ?? 3;
+    this.zcr_min = options.zcr_min ?? 0.01;
+    this.zcr_max = options.zcr_max ?? 0.3;
+    this.attack_ms = options.attack_ms ?? 150;
+    this.hangover_ms = options.hangover_ms ?? 600;
+  }
+
+  /** Feed one chunk; returns true when `speaking` changed. */
+  public process(pcm: Float32Array, level: number, t: number): boolean {
+    const zcr = zeroCrossingRate(pcm);
+    const voiced = level > Math.max(this.min_level, this.noise_floor * this.snr) &&
+      zcr >= this.zcr_min && zcr <= this.zcr_max;
+
+    // Track the floor only from non-speech, rising slowly and falling fast.
+    if (!voiced && !this.speaking) {
+      const rate = level > this.noise_floor ? 0.05 : 0.3;
+      this.noise_floor += (level - this.noise_floor) * rate;
+    }
+
+    const was = this.speaking;
+    if (voiced) {
+      if (this.voiced_since < 0) this.voiced_since = t;
+      this.last_voiced_at = t;
+      if (t - this.voiced_since >= this.attack_ms) this.speaking = true;
+    } else {
+      this.voiced_since = -1;
+      if (this.speaking && t - this.last_voiced_at > this.hangover_ms) this.speaking = false;
+    }
+    return this.speaking !== was;
+  }
+
+  public reset() {
+    this.speaking = false;
+    this.voiced_since = -1;
+    this.last_voiced_at = -Infinity;
+  }
+}
+
+export interface InputSink {
+  audio(pcm: Float32Array): void;
+  activityStart(): void;
+  activityEnd(): void;
+}
+
+export interface InputGateOptions extends SpeechDetectorOptions {
+  /** Audio kept from before speech is detected, so the first word is not clipped. */
+  preroll_chunks?: number;
+}
+
+/**
+ * Decides which mic chunks reach the session. ALWAYS_ON streams everything
+ * and leaves turn-taking to the server. PUSH_TO_TALK and VAD stream only
+ * while the user holds the key or the detector hears speech, bracketed by
+ * explicit activity start/end markers; they need the session's automatic
+ * activity detection turned off.
+ */
+export class InputGate {
+  public mode: InputMode = "ALWAYS_ON";
+  public readonly detector: SpeechDetector;
+
+  private pressed = false;
+  private open = false;
+  private preroll: RingBuffer<Float32Array>;
+
+  constructor(private sink: InputSink, options: InputGateOptions = {}) {
+    this.detector = new SpeechDetector(options);
+    this.preroll = new RingBuffer(options.preroll_chunks ?? 3);
+  }
+
+  /** The user is talking, by the rules of the current mode. */
+  public get speaking(): boolean {
+    return this.mode === "PUSH_TO_TALK" ? this.pressed : this.detector.speaking;
+  }
+
+  public setMode(mode: InputMode) {
+    if (mode === this.mode) return;
+    this.close();
+    this.mode = mode;
+    this.pressed = false;
+    this.detector.reset();
+    this.preroll.clear();
+  }
+
+  public push(pcm: Float32Array, level: number, t = Date.now()) {
+    this.detector.process(pcm, level, t);
+
+    if (this.mode === "ALWAYS_ON") {
+      this.sink.audio(pcm);
+      return;
+    }
+
+    const want = this.speaking;
+    if (want && !this.open) {
+      this.open = true;
+      this.sink.activityStart();
+      for (const chunk of this.preroll) this.sink.audio(chunk);
+      this.preroll.clear();
+    }
+    if (this.open) this.sink.audio(pcm);
+    else this.preroll.push(pcm);
+    if (!want && this.open) this.close();
+  }
+
+  /** Push-to-talk key or button held. */
+  public press() {
+    if (this.mode !== "PUSH_TO_TALK") return;
+    this.pressed = true;
+  }
+
+  public release() {
+    if (this.mode !== "PUSH_TO_TALK") return;
+    this.pressed = false;
+    this.close();
+  }
+
+  /** End any open activity, e.g. when the mic is turned off. */
+  public close() {
+    if (!this.open) return;
+    this.open = false;
+    this.sink.activityEnd();
+  }
+}
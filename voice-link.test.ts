@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, LiveSendRealtimeInputParameters, LiveServerMessage, Modality } from "@google/genai";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { MockLiveServer } from "./mock-live";
+import { LinkStatus, LiveConnector, VoiceLink } from "./voice-link";
+
+const TIMEOUT_MS = 5000;
+
+/** VoiceLink on the SDK pointed at the mock, with its messages and statuses queued for the test. */
+function harness(url: string) {
+  const messages: LiveServerMessage[] = [];
+  const statuses: LinkStatus[] = [];
+  let wake = () => {};
+  const link = new VoiceLink(
+    new GoogleGenAI({ apiKey: "mock", httpOptions: { baseUrl: url } }).live,
+    "mock-model",
+    { responseModalities: [Modality.AUDIO], outputAudioTranscription: {} },
+    {
+      onMessage: msg => { messages.push(msg); wake(); },
+      onStatus: status => { statuses.push(status); wake(); },
+    },
+  );
+
+  /** Resolve once `test` holds, re-checked on every message or status change. */
+  function until<T>(what: string, test: () => T | undefined): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`timed out waiting for ${what}`)), TIMEOUT_MS);
+      wake = () => {
+        const value = test();
+        if (value === undefined) return;
+        clearTimeout(timer);
+        wake = () => {};
+        resolve(value);
+      };
+      wake();
+    });
+  }
+
+  /** First message after `from` that `test` picks. */
+  const message = <T>(what: string, from: number, test: (msg: LiveServerMessage) => T | undefined) =>
+    until(what, () => messages.slice(from).map(test).find(v => v !== undefined));
+
+  return { link, messages, statuses, until, message };
+}
+
+describe("VoiceLink against the mock Live server", () => {
+  const log: string[] = [];
+  const server = new MockLiveServer({
+    port: 0,
+    log: line => log.push(line),
+    scenario: {
+      turns: [
+        { tool: { name: "get_market_metrics", args: {} }, say: "The Ledger reads {result}." },
+        { say: "The Monolith speaks at length so there is time to cut it off mid sentence." },
+      ],
+    },
+  });
+  let h: ReturnType<typeof harness>;
+
+  before(async () => {
+    h = harness(await server.start());
+    h.link.open();
+    await h.until("CONNECTED", () => (h.link.status === "CONNECTED" ? true : undefined));
+  });
+
+  after(async () => {
+    h.link.close();
+    await server.stop();
+  });
+
+  it("answers a tool call and speaks the result", async () => {
+    const from = h.messages.length;
+    assert.ok(h.link.sendText("What do the Titans say?"));
+    const call = await h.message("toolCall", from, msg => msg.toolCall?.functionCalls?.[0]);
+    assert.equal(call.name, "get_market_metrics");
+
+    assert.ok(h.link.sendToolResponse([{ id: call.id, name: call.name, response: { result: { symbol: "btcusdt", signal: "STANDBY", monolith_stars: 1, price: 100 } } }]));
+    await h.message("turnComplete", from, msg => msg.serverContent?.turnComplete);
+    const said = h.messages.slice(from).map(msg => msg.serverContent?.outputTranscription?.text ?? "").join("");
+    assert.equal(said, "The Ledger reads BTCUSDT STANDBY, 1 stars at 100.00.");
+    assert.ok(h.messages.slice(from).some(msg => msg.data));
+  });
+
+  it("reports an interruption while the model is speaking", async () => {
+    const from = h.messages.length;
+    assert.ok(h.link.sendText("Tell me more."));
+    await h.message("audio", from, msg => msg.data);
+    assert.ok(h.link.sendText("/interrupt"));
+    await h.message("interrupted", from, msg => msg.serverContent?.interrupted);
+    assert.ok(!h.messages.slice(from).some(msg => msg.serverContent?.turnComplete));
+  });
+
+  it("moves to a resumed session on goAway without surfacing it", async () => {
+    const from = h.statuses.length;
+    assert.ok(h.link.sendText("/goaway"));
+    await h.until("reconnect", () => (h.statuses.length > from + 1 && h.link.status === "CONNECTED" ? true : undefined));
+    assert.deepEqual(h.statuses.slice(from), ["RECONNECTING", "CONNECTED"]);
+    assert.ok(!h.messages.some(msg => msg.goAway));
+    assert.match(log[log.length - 1], /setup models\/mock-model resuming mock-handle-1$/);
+
+    // The new session takes turns; the scenario has wrapped back to its tool call.
+    const next = h.messages.length;
+    assert.ok(h.link.sendText("And now?"));
+    await h.message("toolCall", next, msg => msg.toolCall);
+  });
+});
+
+describe("VoiceLink buffering while down", () => {
+  /** Link on a connector that only completes setup when told, recording what it sends. */
+  function offline(max_buffered_chunks: number) {
+    const sent: string[] = [];
+    let ready = () => {};
+    const live: LiveConnector = {
+      connect: async ({ callbacks }) => {
+        ready = () => callbacks.onmessage(Object.assign(new LiveServerMessage(), { setupComplete: {} }));
+        return {
+          sendRealtimeInput: (input: LiveSendRealtimeInputParameters) =>
+            sent.push(input.media?.data ?? (input.activityStart ? "start" : "end")),
+          sendClientContent: () => {},
+          sendToolResponse: () => {},
+          close: () => {},
+        };
+      },
+    };
+    const link = new VoiceLink(live, "mock-model", {}, { onMessage: () => {}, onStatus: () => {} }, { max_buffered_chunks });
+    link.open();
+    return {
+      link,
+      sent,
+      audio: (data: string) => link.sendAudio({ data, mimeType: "audio/pcm;rate=16000" }),
+      /** Let the pending connect resolve, then complete setup so the buffer flushes. */
+      async connect() {
+        await Promise.resolve();
+        ready();
+      },
+    };
+  }
+
+  it("drops the oldest audio on overflow and keeps a push-to-talk press whole", async () => {
+    const h = offline(4);
+    h.audio("a1");
+    h.link.sendActivity(true);
+    for (const data of ["a2", "a3", "a4", "a5", "a6"]) h.audio(data);
+    h.link.sendActivity(false);
+    h.audio("a7");
+
+    await h.connect();
+    assert.deepEqual(h.sent, ["start", "a6", "end", "a7"]);
+    h.link.close();
+  });
+
+  it("drops whole presses when only markers are left", async () => {
+    const h = offline(2);
+    for (let i = 0; i < 3; i++) {
+      h.link.sendActivity(true);
+      h.link.sendActivity(false);
+    }
+    h.link.sendActivity(true);
+
+    // Earlier presses went as pairs; the one still held survives.
+    await h.connect();
+    assert.deepEqual(h.sent, ["start"]);
+    h.link.close();
+  });
+});
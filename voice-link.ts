@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Blob, FunctionResponse, LiveConnectConfig, LiveSendRealtimeInputParameters, LiveServerMessage, Session } from "@google/genai";
+
+export type LinkStatus = "CONNECTING" | "CONNECTED" | "RECONNECTING" | "OFFLINE";
+
+/** The part of a Live `Session` the link uses. */
+export type LiveSession = Pick<Session, "sendRealtimeInput" | "sendClientContent" | "sendToolResponse" | "close">;
+
+/** The part of `GoogleGenAI.live` the link needs. */
+export interface LiveConnector {
+  connect: (params: {
+    model: string;
+    config?: LiveConnectConfig;
+    callbacks: {
+      onopen?: () => void;
+      onmessage: (msg: LiveServerMessage) => void;
+      onerror?: (e: ErrorEvent) => void;
+      onclose?: (e: CloseEvent) => void;
+    };
+  }) => Promise<LiveSession>;
+}
+
+export interface VoiceLinkHandlers {
+  onMessage(msg: LiveServerMessage): void;
+  onStatus(status: LinkStatus): void;
+  /**
+   * A reconnect opened a new conversation instead of resuming the old one,
+   * so the model has lost its context; re-seed it here.
+   */
+  onFresh?(): void;
+}
+
+export interface VoiceLinkOptions {
+  /**
+   * Realtime input (audio, activity markers) kept while the link is down.
+   * Past this, the oldest audio goes first; markers only go as a start/end pair.
+   */
+  max_buffered_chunks?: number;
+}
+
+/** Backoff bounds for Live reconnects. */
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 30_000;
+/** Give up on a resumption handle after this many failed attempts with it. */
+const MAX_RESUME_ATTEMPTS = 2;
+
+/**
+ * Keeps one Live session up for as long as the ledger runs. The server's
+ * resumption handles are tracked so a dropped connection, a goAway or the
+ * session time limit reconnects into the same conversation; context window
+ * compression lifts the time limit on long audio sessions. Sends are only
+ * made once setup is complete: audio is buffered while (re)connecting and
+ * everything else reports whether it went out.
+ */
+export class VoiceLink {
+  public status: LinkStatus = "OFFLINE";
+
+  private session: LiveSession | null = null;
+  private handle: string | undefined;
+  private ready = false;
+  private wanted = false;
+  /** Set once any session has completed setup. */
+  private had_session = false;
+  /** Bumped per connection; callbacks from older sessions are ignored. */
+  private generation = 0;
+  private attempts = 0;
+  private reconnect_timer: ReturnType<typeof setTimeout> | null = null;
+  private buffered: LiveSendRealtimeInputParameters[] = [];
+  private max_buffered_chunks: number;
+
+  constructor(
+    private live: LiveConnector,
+    private model: string,
+    private config: LiveConnectConfig,
+    private handlers: VoiceLinkHandlers,
+    options: VoiceLinkOptions = {},
+  ) {
+    this.max_buffered_chunks = options.max_buffered_chunks ?? 50;
+  }
+
+  /** True once the server has acknowledged setup on the current session. */
+  public get isReady(): boolean {
+    return this.ready;
+  }
+
+  public open() {
+    this.wanted = true;
+    this.attempts = 0;
+    this.connect();
+  }
+
+  public close() {
+    this.wanted = false;
+    if (this.reconnect_timer) clearTimeout(this.reconnect_timer);
+    this.reconnect_timer = null;
+    this.drop();
+    this.buffered = [];
+    this.setStatus("OFFLINE");
+  }
+
+  /** Stream one mic chunk, or hold it until the session is ready. */
+  public sendAudio(media: Blob) {
+    this.sendRealtime({ media });
+  }
+
+  /** Explicit turn markers; only valid with automatic activity detection off. */
+  public sendActivity(start: boolean) {
+    this.sendRealtime(start ? { activityStart: {} } : { activityEnd: {} });
+  }
+
+  /**
+   * Apply a new session config. The connection is replaced and, with a
+   * resumption handle, the conversation carries over.
+   */
+  public reconfigure(config: LiveConnectConfig) {
+    this.config = config;
+    if (!this.wanted) return;
+    this.drop();
+    this.connect();
+  }
+
+  private sendRealtime(input: LiveSendRealtimeInputParameters) {
+    if (this.ready && this.session) {
+      this.session.sendRealtimeInput(input);
+      return;
+    }
+    if (!this.wanted) return;
+    this.buffered.push(input);
+    if (this.buffered.length > this.max_buffered_chunks) this.evictBuffered();
+  }
+
+  /**
+   * Make room in the buffer without unbalancing activity markers, which
+   * would leave a push-to-talk turn open or end one that never started.
+   */
+  private evictBuffered() {
+    const audio = this.buffered.findIndex(input => input.media !== undefined || input.audio !== undefined);
+    if (audio >= 0) {
+      this.buffered.splice(audio, 1);
+      return;
+    }
+    const start = this.buffered.findIndex(input => input.activityStart !== undefined);
+    const end = this.buffered.findIndex((input, i) => i > start && input.activityEnd !== undefined);
+    if (start < 0 || end < 0) return;
+    this.buffered.splice(end, 1);
+    this.buffered.splice(start, 1);
+  }
+
+  /** Send a text turn; false if the session is not ready. */
+  public sendText(text: string, turnComplete = true): boolean {
+    if (!this.ready || !this.session) return false;
+    this.session.sendClientContent({ turns: [{ role: "user", parts: [{ text }] }], turnComplete });
+    return true;
+  }
+
+  public sendToolResponse(functionResponses: FunctionResponse[]): boolean {
+    if (!this.ready || !this.session) return false;
+    this.session.sendToolResponse({ functionResponses });
+    return true;
+  }
+
+  private connect() {
+    const generation = ++this.generation;
+    const resuming = this.handle !== undefined;
+    const fresh_after_loss = this.had_session && !resuming;
+    this.ready = false;
+    this.setStatus(this.attempts === 0 && !resuming ? "CONNECTING" : "RECONNECTING");
+
+    this.live.connect({
+      model: this.model,
+      config: {
+        ...this.config,
+        sessionResumption: { handle: this.handle },
+        contextWindowCompression: this.config.contextWindowCompression ?? { slidingWindow: {} },
+      },
+      callbacks: {
+        onmessage: (msg) => {
+          if (generation !== this.generation) return;
+          this.onMessage(msg, fresh_after_loss);
+        },
+        onerror: (e) => {
+          if (generation !== this.generation) return;
+          console.warn(">>> VOICE LINK ERROR", e.message);
+        },
+        onclose: (e) => {
+          if (generation !== this.generation) return;
+          console.log(`>>> VOICE LINK CLOSED: ${e.code} ${e.reason}`);
+          this.session = null;
+          this.ready = false;
+          this.scheduleReconnect();
+        },
+      },
+    }).then(session => {
+      if (generation !== this.generation) return session.close();
+      this.session = session;
+      this.flush();
+    }).catch(e => {
+      if (generation !== this.generation) return;
+      console.error(e);
+      this.scheduleReconnect();
+    });
+  }
+
+  private onMessage(msg: LiveServerMessage, fresh_after_loss: boolean) {
+    if (msg.setupComplete) {
+      this.ready = true;
+      this.had_session = true;
+      this.attempts = 0;
+      this.setStatus("CONNECTED");
+      if (fresh_after_loss) this.handlers.onFresh?.();
+      this.flush();
+    }
+
+    const update = msg.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) this.handle = update.newHandle;
+
+    if (msg.goAway) {
+      // The server is about to end this connection; move to a new one while
+      // the handle is still good instead of waiting for the close.
+      console.log(`>>> VOICE LINK GOAWAY: ${msg.goAway.timeLeft ?? "?"} left`);
+      this.drop();
+      this.connect();
+      return;
+    }
+
+    this.handlers.onMessage(msg);
+  }
+
+  /** Send realtime input held while the link was down. */
+  private flush() {
+    if (!this.ready || !this.session) return;
+    for (const input of this.buffered) this.session.sendRealtimeInput(input);
+    this.buffered = [];
+  }
+
+  private scheduleReconnect() {
+    if (!this.wanted || this.reconnect_timer) return;
+    this.setStatus("RECONNECTING");
+
+    // A handle that keeps failing is stale; start a new conversation instead.
+    if (this.handle !== undefined && this.attempts >= MAX_RESUME_ATTEMPTS) this.handle = undefined;
+
+    const cap = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.attempts);
+    const delay = Math.random() * cap;
+    this.attempts++;
+    console.log(`>>> VOICE LINK LOST, retry in ${Math.round(delay)}ms`);
+
+    this.reconnect_timer = setTimeout(() => {
+      this.reconnect_timer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /** Close the current session without triggering a reconnect. */
+  private drop() {
+    this.generation++;
+    this.ready = false;
+    const session = this.session;
+    this.session = null;
+    session?.close();
+  }
+
+  private setStatus(status: LinkStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.handlers.onStatus(status);
+  }
+}
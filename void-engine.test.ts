@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FeedEvent, MemoryFeedAdapter } from "./feed-adapters";
+import { StrategyDefinition } from "./strategy";
+import { VoidEngine, VoidEngineOptions, VoidState } from "./void-engine";
+
+/** Engine on a memory feed, a manual clock and a manually stepped watchdog. */
+function harness(options: VoidEngineOptions = {}) {
+  let now = 0;
+  let watchdog = () => {};
+  const feed = new MemoryFeedAdapter();
+  const updates: VoidState[] = [];
+  const engine = new VoidEngine(state => updates.push(state), {
+    adapter: feed,
+    clock: () => now,
+    every: fn => { watchdog = fn; return () => {}; },
+    ...options,
+  });
+  engine.connect();
+  return {
+    engine,
+    updates,
+    /** Advance the clock, then deliver the events at the new time. */
+    at(ms: number, ...events: FeedEvent[]) {
+      now = ms;
+      feed.push(...events);
+    },
+    tick(ms: number) {
+      now = ms;
+      watchdog();
+    },
+  };
+}
+
+const trade = (price: number, qty: number, side: "BUY" | "SELL", time = 0): FeedEvent =>
+  ({ kind: "trade", price, qty, is_buyer_maker: side === "SELL", time });
+
+const book = (bid: number, bid_qty: number, ask: number, ask_qty: number, time = 0): FeedEvent =>
+  ({ kind: "book", bids: [[bid, bid_qty], [bid - 0.1, 1]], asks: [[ask, ask_qty], [ask + 0.1, 1]], time });
+
+/**
+ * One market second per step for `seconds`, each with `books` depth updates
+ * and `trades` prints, shaped by `step`. Returns the time after the last step.
+ */
+function tape(
+  h: ReturnType<typeof harness>,
+  from_ms: number,
+  seconds: number,
+  step: (i: number) => { price: number; imbalance?: (j: number) => number; spread?: number; books?: number; trades?: number },
+) {
+  let t = from_ms;
+  for (let i = 0; i < seconds; i++) {
+    const { price, imbalance = () => 0, spread = 0.1, books = 1, trades = 1 } = step(i);
+    for (let j = 0; j < books; j++) {
+      // Level-1 sizes with (bid - ask) / (bid + ask) = imbalance.
+      const obi = imbalance(j);
+      h.at(t + j * (1000 / books), book(price - spread / 2, 1 + obi, price + spread / 2, 1 - obi));
+    }
+    for (let j = 0; j < trades; j++) h.at(t + j * (1000 / trades), trade(price, 0.1, j % 2 ? "SELL" : "BUY"));
+    t += 1000;
+  }
+  return t;
+}
+
+describe("VoidEngine metrics", () => {
+  it("CTD nets aggressive buy and sell volume over the last 3s", () => {
+    const h = harness();
+    h.at(0, trade(100, 2, "BUY"));
+    h.at(1000, trade(100, 1.5, "BUY"));
+    h.at(2000, trade(100, 0.5, "SELL"));
+    assert.equal(h.engine.state.void_kinetic, 3);
+
+    // The first two prints age out; only the sell and the new buy remain.
+    h.at(4500, trade(100, 1, "BUY"));
+    assert.equal(h.engine.state.void_kinetic, 0.5);
+  });
+
+  it("OBI reads level-1 sizes only and skips crossed books", () => {
+    const h = harness();
+    h.at(0, { kind: "book", bids: [[100, 3], [99.9, 50]], asks: [[100.1, 1], [100.2, 50]], time: 0 });
+    assert.equal(h.engine.state.void_pressure, 0.5);
+
+    h.at(100, { kind: "book", bids: [[100.2, 1]], asks: [[100.1, 9]], time: 100 });
+    assert.equal(h.engine.state.void_pressure, 0.5);
+  });
+
+  it("bumps the book sequence per depth update only", () => {
+    const h = harness();
+    const seq = h.engine.bookSeq;
+    h.at(0, book(100, 1, 100.1, 1), trade(100, 1, "BUY"));
+    assert.equal(h.engine.bookSeq, seq + 1);
+    assert.equal(h.engine.bookSnapshot().seq, h.engine.bookSeq);
+  });
+
+  it("LQ is the micro-burst price move per unit of volume", () => {
+    const h = harness();
+    h.at(0, trade(100, 1, "BUY"));
+    h.at(10, trade(100.5, 1, "BUY"));
+    assert.equal(h.engine.state.void_elasticity, (0.5 / 2) * 10000);
+  });
+
+  it("LQ ignores bursts with negligible volume", () => {
+    const h = harness();
+    h.at(0, trade(100, 0.001, "BUY"));
+    h.at(10, trade(101, 0.001, "BUY"));
+    assert.equal(h.engine.state.void_elasticity, 0);
+  });
+});
+
+describe("VoidEngine regimes", () => {
+  it("stays CALCULATING until the imbalance window has data", () => {
+    const h = harness();
+    tape(h, 0, 10, () => ({ price: 100 }));
+    assert.equal(h.engine.state.domain_state, "CALCULATING");
+  });
+
+  it("calls a quiet, steady tape STAGNATION", () => {
+    const h = harness();
+    tape(h, 0, 90, () => ({ price: 100 }));
+    assert.equal(h.engine.state.domain_state, "STAGNATION");
+  });
+
+  it("calls a tape with moderate imbalance swings EQUILIBRIUM", () => {
+    const h = harness();
+    tape(h, 0, 90, () => ({ price: 100, books: 4, imbalance: j => (j % 2 ? 0.3 : -0.3) }));
+    assert.equal(h.engine.state.domain_state, "EQUILIBRIUM");
+  });
+
+  it("calls a burst of flipping imbalance, wide spreads and fast prints VOLATILITY", () => {
+    const h = harness();
+    const t = tape(h, 0, 90, () => ({ price: 100 }));
+    tape(h, t, 15, () => ({ price: 100, books: 10, trades: 10, spread: 0.5, imbalance: j => (j % 2 ? 0.9 : -0.9) }));
+    assert.equal(h.engine.state.domain_state, "VOLATILITY");
+  });
+
+  it("calls a steady drift against realized volatility TRENDING_UP or TRENDING_DOWN", () => {
+    for (const [sign, regime] of [[1, "TRENDING_UP"], [-1, "TRENDING_DOWN"]] as const) {
+      const h = harness();
+      let price = 100;
+      tape(h, 0, 90, i => ({ price: price += sign * (i % 2 ? 0.05 : 0.2) }));
+      assert.equal(h.engine.state.domain_state, regime);
+    }
+  });
+});
+
+describe("VoidEngine verdicts", () => {
+  const STRATEGY: StrategyDefinition = {
+    name: "TEST",
+    titans: [
+      { label: "CTD", metric: "void_kinetic", direction: "either", threshold: 1 },
+      { label: "OBI", metric: "void_pressure", direction: "either", threshold: 0.3 },
+      { label: "LQ", metric: "void_elasticity", direction: "either", threshold: 2 },
+    ],
+    verdicts: [
+      { min_stars: 3, signal: "EXECUTE", side_from: "void_kinetic" },
+      { min_stars: 2, signal: "PREPARE" },
+    ],
+    fallback: "STANDBY",
+  };
+
+  it("falls back with too few stars", () => {
+    const h = harness({ strategy: STRATEGY });
+    h.at(0, book(100, 1, 100.1, 1), trade(100, 0.1, "BUY"));
+    assert.equal(h.engine.state.monolith_stars, 0);
+    assert.equal(h.engine.state.signal, "STANDBY");
+  });
+
+  it("takes the first step the star count reaches", () => {
+    const h = harness({ strategy: STRATEGY });
+    // CTD and OBI fire; trades at one price leave LQ at zero.
+    h.at(0, book(100, 5, 100.1, 1), trade(100, 2, "BUY"));
+    assert.equal(h.engine.state.monolith_stars, 2);
+    assert.equal(h.engine.state.signal, "PREPARE");
+  });
+
+  it("takes the side from the side_from metric's sign", () => {
+    const long = harness({ strategy: STRATEGY });
+    long.at(0, book(100, 5, 100.1, 1), trade(100, 2, "BUY"));
+    long.at(10, trade(100.1, 2, "BUY"));
+    assert.equal(long.engine.state.monolith_stars, 3);
+    assert.equal(long.engine.state.signal, "EXECUTE LONG");
+
+    const short = harness({ strategy: STRATEGY });
+    short.at(0, book(100, 1, 100.1, 5), trade(100.1, 2, "SELL"));
+    short.at(10, trade(100, 2, "SELL"));
+    assert.equal(short.engine.state.signal, "EXECUTE SHORT");
+  });
+
+  it("falls back when the side reading is zero or missing", () => {
+    const flat = harness({
+      strategy: { ...STRATEGY, titans: [STRATEGY.titans[1]], verdicts: [{ min_stars: 1, signal: "EXECUTE", side_from: "void_kinetic" }] },
+    });
+    flat.at(0, book(100, 5, 100.1, 1));
+    assert.equal(flat.engine.state.monolith_stars, 1);
+    assert.equal(flat.engine.state.signal, "STANDBY");
+
+    // No mark stream: basis reads NaN.
+    const no_mark = harness({
+      strategy: { ...STRATEGY, titans: [STRATEGY.titans[1]], verdicts: [{ min_stars: 1, signal: "EXECUTE", side_from: "basis" }] },
+    });
+    no_mark.at(0, book(100, 5, 100.1, 1));
+    assert.equal(no_mark.engine.state.signal, "STANDBY");
+  });
+
+  it("suspends the verdict while the feed is stale and publishes the growing age", () => {
+    const h = harness({ strategy: STRATEGY });
+    h.at(0, book(100, 5, 100.1, 1), trade(100, 2, "BUY"));
+    h.at(10, trade(100.1, 2, "BUY"));
+    assert.equal(h.engine.state.signal, "EXECUTE LONG");
+
+    h.tick(6000);
+    assert.equal(h.engine.state.feed_status, "STALE");
+    assert.equal(h.engine.state.signal, "STANDBY");
+
+    const before = h.updates.length;
+    h.tick(7000);
+    h.tick(8000);
+    assert.deepEqual(h.updates.slice(before).map(u => u.feed_age), [6.99, 7.99]);
+
+    h.at(8100, trade(100.1, 0.1, "BUY"));
+    assert.equal(h.engine.state.feed_status, "LIVE");
+  });
+});
@@ -4,6 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { BinanceFuturesAdapter, FeedAdapter, FeedEvent, FeedStatus } from "./feed-adapters";
+import { FeedRecorder } from "./feed-recorder";
+import { Level, OrderBook, largeLevels } from "./order-book";
+import { RegimeClassifier } from "./regime";
+import { RingBuffer, RollingStats, TimeWindowSum } from "./rolling";
+import { DEFAULT_STRATEGY, MetricSource, StrategyDefinition, isTitanActive, parseStrategy } from "./strategy";
+import { Absorption, WhaleDetector } from "./whale-detector";
+
 export interface TitanStatus {
   name: string;
   value: string;
@@ -11,193 +19,440 @@ export interface TitanStatus {
 }
 
 export interface VoidState {
+  symbol: string;
   price: number;
   void_elasticity: number;
   void_pressure: number;
   void_kinetic: number;
+  /** (mark - index) / index, as a fraction. */
+  basis: number;
+  funding_rate: number;
+  /** Seconds until the next funding event. */
+  time_to_funding: number;
   domain_state: string;
+  /** 0..1 support for domain_state from the classifier's inputs. */
+  regime_confidence: number;
   signal: string;
+  /** Anything but LIVE forces the signal down to the strategy fallback. */
+  feed_status: FeedStatus;
+  /** Seconds since the last market message, or -1 before the first. */
+  feed_age: number;
   monolith_stars: number;
+  monolith_max_stars: number;
+  strategy: string;
+  titans: TitanStatus[];
+}
+
+/** One-second snapshot of the Monolith, kept for "what changed" questions. */
+export interface TitanSnapshot {
+  t: number;
+  price: number;
+  signal: string;
+  stars: number;
+  domain_state: string;
   titans: TitanStatus[];
 }
 
+/** One-second sample of the numeric metrics, for sparklines and trend questions. */
+export interface MetricSample {
+  t: number;
+  price: number;
+  void_kinetic: number;
+  void_pressure: number;
+  void_elasticity: number;
+  /** NaN without a mark stream. */
+  basis: number;
+}
+
+export type HistoryMetric = Exclude<keyof MetricSample, "t">;
+
+export const HISTORY_METRICS: HistoryMetric[] = ["price", "void_kinetic", "void_pressure", "void_elasticity", "basis"];
+
+/** Copy of the book after one depth update, for the ladder and heatmap. */
+export interface BookSnapshot {
+  t: number;
+  /** Bumped per applied depth update, so readers can skip ones they have drawn. */
+  seq: number;
+  /** Best first, `depth` levels per side. */
+  bids: Level[];
+  asks: Level[];
+  /** OBI reads level 1 only: these are the two sizes behind `void_pressure`. */
+  l1_bid_size: number;
+  l1_ask_size: number;
+  pressure: number;
+  /** Prices of levels well above the typical size on their side. */
+  walls: number[];
+  /** Latest absorption the whale detector still holds. */
+  absorption: Absorption | null;
+}
+
+export interface VoidEngineOptions {
+  adapter?: FeedAdapter;
+  /** Wall clock in ms. Replays pass the adapter's virtual clock. */
+  clock?: () => number;
+  strategy?: StrategyDefinition;
+  /** Venue symbol, e.g. "btcusdt". Defaults to BTC. */
+  symbol?: string;
+  /** No market data for this long marks the feed STALE. */
+  stale_after_ms?: number;
+  /**
+   * Runs `fn` every `ms` and returns a cancel function. Drives the stale
+   * watchdog; pass a manual scheduler to step it on synthetic time.
+   */
+  every?: (fn: () => void, ms: number) => () => void;
+}
+
+const everyInterval = (fn: () => void, ms: number) => {
+  const id = setInterval(fn, ms);
+  return () => clearInterval(id);
+};
+
+/**
+ * Accepts what people say or type ("ETH", "eth-usdt", "BTCUSDT") and
+ * returns the lowercase venue symbol. Bare bases are quoted in USDT.
+ */
+export function normalizeSymbol(input: string): string {
+  const s = input.toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (/(usdt|usdc|busd|fdusd)$/.test(s)) return s;
+  return s + "usdt";
+}
+
 export class VoidEngine {
   public state: VoidState = {
+    symbol: "",
     price: 0.0,
     void_elasticity: 0.0,
     void_pressure: 0.0,
     void_kinetic: 0.0,
+    basis: 0.0,
+    funding_rate: 0.0,
+    time_to_funding: 0,
     domain_state: "CALCULATING",
+    regime_confidence: 0,
     signal: "STANDBY",
+    feed_status: "CLOSED",
+    feed_age: -1,
     monolith_stars: 0,
-    titans: [
-      { name: "CTD (Kinetic)", value: "0", active: false },
-      { name: "OBI (Pressure)", value: "0.0", active: false },
-      { name: "LQ  (Elasticity)", value: "0.0", active: false },
-      { name: "BASIS", value: "0.0%", active: true },
-      { name: "WA  (Volume)", value: "---", active: false },
-    ]
+    monolith_max_stars: 0,
+    strategy: "",
+    titans: []
   };
 
-  private trades: Array<{ p: number; q: number; b: boolean; t: number }> = [];
-  private book_bids: Map<number, number> = new Map();
-  private book_asks: Map<number, number> = new Map();
-  private imbalance_hist: number[] = [];
-  private ws: WebSocket | null = null;
-  private symbol = "btcusdt";
+  /** Signed taker volume (buys positive) over the last 3s, for CTD. */
+  private flow = new TimeWindowSum(3000);
+  /** Last 20 prints, for the LQ micro-burst. */
+  private micro_prices = new RingBuffer<number>(20);
+  private micro_qty = new RollingStats(20);
+  private book = new OrderBook();
+  private whales = new WhaleDetector();
+  private regime = new RegimeClassifier();
+  private next_funding_time = 0;
+  private has_mark = false;
+  private adapter: FeedAdapter;
+  private clock: () => number;
+  private strategy: StrategyDefinition = DEFAULT_STRATEGY;
+  private recorder: FeedRecorder | null = null;
+  private stale_after_ms: number;
+  private last_message_at = -1;
+  private every: (fn: () => void, ms: number) => () => void;
+  private stopWatchdog: (() => void) | null = null;
+  /** 15 minutes at one snapshot per second. */
+  private snapshots = new RingBuffer<TitanSnapshot>(900);
+  /** Same cadence and span (15 minutes) as `snapshots`. */
+  private samples = new RingBuffer<MetricSample>(900);
+  private book_seq = 0;
+  public readonly symbol: string;
   private onUpdate: ((state: VoidState) => void) | null = null;
 
-  constructor(onUpdate?: (state: VoidState) => void) {
+  constructor(onUpdate?: (state: VoidState) => void, options: VoidEngineOptions = {}) {
     this.onUpdate = onUpdate || null;
+    this.adapter = options.adapter || new BinanceFuturesAdapter();
+    this.clock = options.clock || Date.now;
+    this.symbol = normalizeSymbol(options.symbol || "btcusdt");
+    this.stale_after_ms = options.stale_after_ms ?? 5000;
+    this.every = options.every || everyInterval;
+    this.state.symbol = this.symbol;
+    this.setStrategy(options.strategy || DEFAULT_STRATEGY);
   }
 
-  public connect() {
-    if (this.ws) {
-        this.ws.close();
-    }
+  /** Swap the Monolith configuration; the ledger updates immediately. */
+  public setStrategy(strategy: StrategyDefinition) {
+    this.strategy = parseStrategy(strategy);
+    this.state.strategy = this.strategy.name;
+    this.calculateMonolith();
+    this.onUpdate?.({...this.state});
+  }
 
-    const wsUrl = `wss://fstream.binance.com/stream?streams=${this.symbol}@aggTrade/${this.symbol}@depth20@100ms`;
-    this.ws = new WebSocket(wsUrl);
+  /** Current top-of-book levels, best first. Read-only views, not copies. */
+  public bookView(): { bids: readonly Level[]; asks: readonly Level[] } {
+    return { bids: this.book.bidLevels, asks: this.book.askLevels };
+  }
+
+  /** Bumped per applied depth update; compare before paying for a snapshot. */
+  public get bookSeq(): number {
+    return this.book_seq;
+  }
 
-    this.ws.onopen = () => {
-        console.log(">>> LEDGER CONNECTED: " + this.symbol);
+  /** Copy the current book for display, with walls and absorption marked. */
+  public bookSnapshot(depth = 20): BookSnapshot {
+    const bids = this.book.bidLevels.slice(0, depth);
+    const asks = this.book.askLevels.slice(0, depth);
+    const walls = [...largeLevels(bids), ...largeLevels(asks)].map(([p]) => p);
+    return {
+      t: this.clock(),
+      seq: this.book_seq,
+      bids,
+      asks,
+      l1_bid_size: bids[0]?.[1] ?? 0,
+      l1_ask_size: asks[0]?.[1] ?? 0,
+      pressure: this.state.void_pressure,
+      walls,
+      absorption: this.whales.current(this.clock()),
     };
+  }
 
-    this.ws.onmessage = (event) => {
-      const payload = JSON.parse(event.data);
-      const stream = payload.stream;
-      const data = payload.data;
+  /** Snapshots from the last `seconds`, oldest first. */
+  public titanHistory(seconds: number): TitanSnapshot[] {
+    const cutoff = this.clock() - seconds * 1000;
+    return [...this.snapshots].filter(s => s.t >= cutoff);
+  }
 
-      if (stream.includes('aggTrade')) {
-        this.processTrade(parseFloat(data.p), parseFloat(data.q), data.m);
-      } else if (stream.includes('depth')) {
-        this.processBook(data.b, data.a);
-      }
+  /** Metric samples from the last `seconds`, oldest first. */
+  public metricHistory(seconds: number): MetricSample[] {
+    const cutoff = this.clock() - seconds * 1000;
+    const out: MetricSample[] = [];
+    for (const s of this.samples) if (s.t >= cutoff) out.push(s);
+    return out;
+  }
 
-      this.updateRegime();
-      this.calculateMonolith();
-      
-      if (this.onUpdate) {
-        this.onUpdate({...this.state});
-      }
-    };
+  public getStrategy(): StrategyDefinition {
+    return this.strategy;
+  }
+
+  public connect() {
+    this.book.clear();
+    this.whales.reset();
+    this.flow.clear();
+    this.micro_prices.clear();
+    this.micro_qty.clear();
+    this.regime.reset();
+    this.snapshots.clear();
+    this.samples.clear();
+    this.book_seq++;
+    this.has_mark = false;
+    this.last_message_at = -1;
+    this.adapter.open(this.symbol, {
+      onEvent: (event) => this.handleEvent(event),
+      onRaw: (raw, received_at) => this.recorder?.record(raw, received_at),
+      onStatus: (status) => this.setFeedStatus(status),
+    });
+
+    this.stopWatchdog?.();
+    this.stopWatchdog = this.every(() => this.checkStale(), 1000);
+  }
+
+  public startRecording() {
+    this.recorder = new FeedRecorder({
+      venue: this.adapter.venue,
+      symbol: this.symbol,
+      started_at: this.clock(),
+    });
+  }
+
+  public stopRecording(): FeedRecorder | null {
+    const recorder = this.recorder;
+    this.recorder = null;
+    return recorder;
+  }
+
+  public disconnect() {
+    this.stopWatchdog?.();
+    this.stopWatchdog = null;
+    this.adapter.close();
+  }
+
+  private setFeedStatus(status: FeedStatus) {
+    if (status === this.state.feed_status) return;
+    this.state.feed_status = status;
+    this.calculateMonolith();
+    this.onUpdate?.({...this.state});
+  }
+
+  /** A socket can stay open while the venue sends nothing. */
+  private checkStale() {
+    if (this.last_message_at < 0) return;
+    const age = this.clock() - this.last_message_at;
+    this.state.feed_age = age / 1000;
+    if (this.state.feed_status === "LIVE") {
+      if (age > this.stale_after_ms) this.setFeedStatus("STALE");
+      return;
+    }
+    // Live updates carry the age with them; a quiet feed needs the tick to.
+    this.onUpdate?.({...this.state});
+  }
+
+  private handleEvent(event: FeedEvent) {
+    this.last_message_at = this.clock();
+    this.state.feed_age = 0;
+    if (this.state.feed_status === "STALE") this.state.feed_status = "LIVE";
+
+    if (event.kind === "trade") {
+      this.processTrade(event.price, event.qty, event.is_buyer_maker);
+    } else if (event.kind === "book") {
+      this.processBook(event.bids, event.asks, event.update_id);
+    } else if (event.kind === "mark") {
+      this.processMark(event.mark_price, event.index_price, event.funding_rate, event.next_funding_time);
+    }
+
+    this.updateRegime();
+    this.calculateMonolith();
+    this.snapshot();
+
+    if (this.onUpdate) {
+      this.onUpdate({...this.state});
+    }
+  }
+
+  private snapshot() {
+    const t = this.clock();
+    const last = this.snapshots.last();
+    if (last && t - last.t < 1000) return;
+    this.snapshots.push({
+      t,
+      price: this.state.price,
+      signal: this.state.signal,
+      stars: this.state.monolith_stars,
+      domain_state: this.state.domain_state,
+      titans: this.state.titans,
+    });
+    this.samples.push({
+      t,
+      price: this.state.price,
+      void_kinetic: this.state.void_kinetic,
+      void_pressure: this.state.void_pressure,
+      void_elasticity: this.state.void_elasticity,
+      basis: this.has_mark ? this.state.basis : NaN,
+    });
   }
 
   private processTrade(p: number, q: number, is_buyer_maker: boolean) {
     const is_buyer = !is_buyer_maker;
     this.state.price = p;
-    const t_now = Date.now() / 1000;
-    
-    this.trades.push({ p, q, b: is_buyer, t: t_now });
-    if (this.trades.length > 1000) this.trades.shift();
+    const t_now = this.clock();
+    this.whales.onTrade(p, q, is_buyer_maker, t_now, this.book);
+    this.regime.onTrade(t_now, p);
 
     // CTD (Kinetic)
-    const recent = this.trades.filter(t => t.t > t_now - 3);
-    const buy_vol = recent.filter(t => t.b).reduce((sum, t) => sum + t.q, 0);
-    const sell_vol = recent.filter(t => !t.b).reduce((sum, t) => sum + t.q, 0);
-    this.state.void_kinetic = buy_vol - sell_vol;
+    this.flow.push(t_now, is_buyer ? q : -q);
+    this.state.void_kinetic = this.flow.sum;
 
     // LQ (Elasticity/Micro-Burst)
-    const micro = this.trades.slice(-20);
-    if (micro.length > 1) {
-      const micro_price_delta = micro[micro.length - 1].p - micro[0].p;
-      const micro_vol = micro.reduce((sum, t) => sum + t.q, 0);
+    this.micro_prices.push(p);
+    this.micro_qty.push(q);
+    if (this.micro_prices.length > 1) {
+      const micro_price_delta = this.micro_prices.last()! - this.micro_prices.first()!;
+      const micro_vol = this.micro_qty.total;
       if (micro_vol > 0.01) {
         this.state.void_elasticity = (micro_price_delta / micro_vol) * 10000;
       }
     }
   }
 
-  private processBook(bids: string[][], asks: string[][]) {
-    bids.forEach(([p, q]) => {
-      const qty = parseFloat(q);
-      if (qty === 0) this.book_bids.delete(parseFloat(p));
-      else this.book_bids.set(parseFloat(p), qty);
-    });
-
-    asks.forEach(([p, q]) => {
-      const qty = parseFloat(q);
-      if (qty === 0) this.book_asks.delete(parseFloat(p));
-      else this.book_asks.set(parseFloat(p), qty);
-    });
-
-    if (this.book_bids.size === 0 || this.book_asks.size === 0) return;
+  private processBook(bids: Array<[number, number]>, asks: Array<[number, number]>, update_id?: number) {
+    if (!this.book.replace(bids, asks, update_id)) return;
+    this.book_seq++;
+    this.whales.onBook(this.book, this.clock());
+    if (!this.book.isValid()) return;
 
-    const best_bid = Math.max(...this.book_bids.keys());
-    const best_ask = Math.min(...this.book_asks.keys());
-    const l1_bid_vol = this.book_bids.get(best_bid) || 0;
-    const l1_ask_vol = this.book_asks.get(best_ask) || 0;
+    const [best_bid, l1_bid_vol] = this.book.bestBid()!;
+    const [best_ask, l1_ask_vol] = this.book.bestAsk()!;
 
     // OBI (Pressure)
     const denominator = l1_bid_vol + l1_ask_vol;
     const ratio = denominator > 0 ? (l1_bid_vol - l1_ask_vol) / denominator : 0;
     this.state.void_pressure = ratio;
     
-    this.imbalance_hist.push(ratio);
-    if (this.imbalance_hist.length > 120) this.imbalance_hist.shift();
+    const spread_bps = (best_ask - best_bid) / ((best_ask + best_bid) / 2) * 10000;
+    this.regime.onBook(this.clock(), ratio, spread_bps);
+  }
+
+  private processMark(mark: number, index: number, funding_rate: number, next_funding_time: number) {
+    if (index <= 0) return;
+    this.has_mark = true;
+    this.state.basis = (mark - index) / index;
+    this.state.funding_rate = funding_rate;
+    this.next_funding_time = next_funding_time;
   }
 
   private updateRegime() {
-    if (this.imbalance_hist.length > 10) {
-      const n = this.imbalance_hist.length;
-      const mean = this.imbalance_hist.reduce((a, b) => a + b, 0) / n;
-      const variance = this.imbalance_hist.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / n;
-      const volatility = Math.sqrt(variance);
-
-      if (volatility < 0.1) this.state.domain_state = "STAGNATION";
-      else if (volatility < 0.35) this.state.domain_state = "EQUILIBRIUM";
-      else this.state.domain_state = "VOLATILITY";
+    const { regime, confidence } = this.regime.classify(this.clock());
+    this.state.domain_state = regime;
+    this.state.regime_confidence = confidence;
+  }
+
+  /** Raw reading and ledger display for a strategy metric. */
+  private readMetric(metric: MetricSource): { value: number | string; display: string } {
+    switch (metric) {
+      case "void_kinetic":
+        return { value: this.state.void_kinetic, display: this.state.void_kinetic.toFixed(1) };
+      case "void_pressure":
+        return { value: this.state.void_pressure, display: this.state.void_pressure.toFixed(2) };
+      case "void_elasticity":
+        return { value: this.state.void_elasticity, display: this.state.void_elasticity.toFixed(2) };
+      case "basis":
+        // No mark stream (e.g. spot): withhold the star rather than read 0.
+        if (!this.has_mark) return { value: NaN, display: "---" };
+        return { value: this.state.basis, display: (this.state.basis * 100).toFixed(3) + "%" };
+      case "funding_rate":
+        if (!this.has_mark) return { value: NaN, display: "---" };
+        return { value: this.state.funding_rate, display: (this.state.funding_rate * 100).toFixed(4) + "%" };
+      case "domain_state":
+        return { value: this.state.domain_state, display: this.state.domain_state };
+      case "whale_absorbed": {
+        // Signed: bid absorption is bullish, ask absorption bearish.
+        const wa = this.whales.current(this.clock());
+        if (!wa) return { value: 0, display: "---" };
+        return {
+          value: wa.side === "BID" ? wa.absorbed : -wa.absorbed,
+          display: `${wa.side} ${wa.price.toFixed(2)} x${wa.absorbed.toFixed(2)} ${wa.kind}`,
+        };
+      }
     }
   }
 
   private calculateMonolith() {
-    const k = this.state.void_kinetic;   // CTD
-    const p = this.state.void_pressure;  // OBI
-    const e = this.state.void_elasticity;// LQ
-    const d = this.state.domain_state;
+    if (this.has_mark) {
+      this.state.time_to_funding = Math.max(0, (this.next_funding_time - this.clock()) / 1000);
+    }
 
     let stars = 0;
+    const titans: TitanStatus[] = [];
 
-    // 1. CTD > Threshold
-    const ctd_active = Math.abs(k) > 50;
-    if (ctd_active) stars++;
-
-    // 2. OBI > Threshold
-    const obi_active = Math.abs(p) > 0.3;
-    if (obi_active) stars++;
-
-    // 3. LQ > Threshold
-    const lq_active = Math.abs(e) > 2.0;
-    if (lq_active) stars++;
-
-    // 4. Regime Valid (Volatility)
-    const regime_active = d === "VOLATILITY";
-    if (regime_active) stars++;
-
-    // 5. Whale Absorption (Simulated based on alignment)
-    // If CTD and OBI align
-    const wa_active = (k > 0 && p > 0) || (k < 0 && p < 0);
-    if (wa_active) stars++;
+    for (const titan of this.strategy.titans) {
+      const { value, display } = this.readMetric(titan.metric);
+      const active = isTitanActive(titan, value);
+      if (active) stars++;
+      if (!titan.hidden) titans.push({ name: titan.label, value: display, active });
+    }
 
     this.state.monolith_stars = stars;
-
-    // Update Titan Display
-    this.state.titans = [
-        { name: "CTD (Kinetic)", value: k.toFixed(1), active: ctd_active },
-        { name: "OBI (Pressure)", value: p.toFixed(2), active: obi_active },
-        { name: "LQ  (Elasticity)", value: e.toFixed(2), active: lq_active },
-        { name: "BASIS", value: "0.01%", active: true }, // Static for now
-        { name: "WA  (Whale)", value: wa_active ? "DETECTED" : "---", active: wa_active },
-    ];
-
-    // Verdict
-    if (stars >= 4) {
-        if (k > 0) this.state.signal = "EXECUTE LONG";
-        else this.state.signal = "EXECUTE SHORT";
-    } else if (stars === 3) {
-        this.state.signal = "PREPARE";
+    this.state.monolith_max_stars = this.strategy.titans.length;
+    this.state.titans = titans;
+
+    // Verdict. A dead or silent feed cannot back a call.
+    const step = this.strategy.verdicts.find(v => stars >= v.min_stars);
+    if (!step || this.state.feed_status !== "LIVE") {
+        this.state.signal = this.strategy.fallback;
+    } else if (step.side_from) {
+        // No direction to take (flat, missing or non-numeric): make no call.
+        const side = this.readMetric(step.side_from).value;
+        if (typeof side !== "number" || !Number.isFinite(side) || side === 0) {
+            this.state.signal = this.strategy.fallback;
+        } else {
+            this.state.signal = step.signal + (side > 0 ? " LONG" : " SHORT");
+        }
     } else {
-        this.state.signal = "STANDBY";
+        this.state.signal = step.signal;
     }
   }
 }
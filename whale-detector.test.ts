@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { OrderBook } from "./order-book";
+import { WhaleDetector } from "./whale-detector";
+
+/** Detector whose whale size is 1, with a 10-lot bid at 100 taking a 2-lot hit. */
+function hitBid() {
+  const whales = new WhaleDetector();
+  const book = new OrderBook();
+  book.replace([[100, 10]], [[100.1, 10]]);
+  // Size history off the book, so no fills are tallied.
+  for (let i = 0; i < 50; i++) whales.onTrade(99, 1, true, i, book);
+  whales.onTrade(100, 2, true, 100, book);
+  return { whales, book };
+}
+
+describe("WhaleDetector refills", () => {
+  it("does not call a thick level that was only dented a refill", () => {
+    const { whales, book } = hitBid();
+    book.replace([[100, 9.5]], [[100.1, 10]]);
+    whales.onBook(book, 200);
+    assert.equal(whales.current(200), null);
+  });
+
+  it("calls a level that rebuilt after the hit a refill", () => {
+    const { whales, book } = hitBid();
+    book.replace([[100, 10]], [[100.1, 10]]);
+    whales.onBook(book, 200);
+    assert.deepEqual(whales.current(200), { side: "BID", price: 100, absorbed: 2, kind: "REFILL", time: 200 });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OrderBook } from "./order-book";
+
+/**
+ * A passive level that soaked up aggressive size without giving way.
+ * BID absorption means sellers hit a bid that held (bullish), ASK the
+ * reverse.
+ */
+export interface Absorption {
+  side: "BID" | "ASK";
+  price: number;
+  absorbed: number;
+  kind: "REFILL" | "ICEBERG";
+  time: number;
+}
+
+export interface WhaleDetectorOptions {
+  /** Trade-size percentile that counts as a whale print. */
+  percentile?: number;
+  /** Number of recent trade sizes the percentile is taken over. */
+  size_window?: number;
+  /** Fraction of the size taken out of a level that must be replenished to call it a refill. */
+  refill_ratio?: number;
+  /** Fills at one price must exceed the visible size this many times over. */
+  iceberg_ratio?: number;
+  /** How long a detection, or a pending fill tally, stays live (ms). */
+  hold_ms?: number;
+}
+
+interface PendingFill {
+  side: "BID" | "ASK";
+  price: number;
+  visible: number;
+  filled: number;
+  fills: number;
+  first_t: number;
+  last_t: number;
+  whale: boolean;
+}
+
+export class WhaleDetector {
+  private percentile: number;
+  private size_window: number;
+  private refill_ratio: number;
+  private iceberg_ratio: number;
+  private hold_ms: number;
+
+  private sizes: number[] = [];
+  private size_cursor = 0;
+  private whale_size = Infinity;
+  private since_recalc = 0;
+  private pending: Map<string, PendingFill> = new Map();
+  private last: Absorption | null = null;
+
+  constructor(options: WhaleDetectorOptions = {}) {
+    this.percentile = options.percentile ?? 0.95;
+    this.size_window = options.size_window ?? 500;
+    this.refill_ratio = options.refill_ratio ?? 0.8;
+    this.iceberg_ratio = options.iceberg_ratio ?? 2;
+    this.hold_ms = options.hold_ms ?? 5000;
+  }
+
+  public reset() {
+    this.sizes = [];
+    this.size_cursor = 0;
+    this.whale_size = Infinity;
+    this.since_recalc = 0;
+    this.pending.clear();
+    this.last = null;
+  }
+
+  /** Feed every aggressive print, before the book has reacted to it. */
+  public onTrade(price: number, qty: number, is_buyer_maker: boolean, time: number, book: OrderBook) {
+    this.trackSize(qty);
+
+    // Buyer is maker: a seller crossed the spread into the bids.
+    const side = is_buyer_maker ? "BID" : "ASK";
+    const levels = side === "BID" ? book.bidLevels : book.askLevels;
+    const level = levels.find(([p]) => p === price);
+    if (!level) return;
+
+    const key = side + ":" + price;
+    let fill = this.pending.get(key);
+    if (!fill || time - fill.last_t > this.hold_ms) {
+      fill = { side, price, visible: level[1], filled: 0, fills: 0, first_t: time, last_t: time, whale: false };
+      this.pending.set(key, fill);
+    }
+    fill.filled += qty;
+    fill.fills++;
+    fill.last_t = time;
+    if (qty >= this.whale_size) fill.whale = true;
+
+    // Repeated fills at one price well past what was ever shown.
+    if (fill.fills >= 3 && fill.filled >= fill.visible * this.iceberg_ratio && this.levelSize(book, side, price) > 0) {
+      this.detect(fill, "ICEBERG", time);
+    }
+  }
+
+  /** Feed every book snapshot, after it has been applied. */
+  public onBook(book: OrderBook, time: number) {
+    for (const [key, fill] of this.pending) {
+      if (time - fill.last_t > this.hold_ms) {
+        this.pending.delete(key);
+        continue;
+      }
+      if (!fill.whale) continue;
+
+      // What a passive level would show after the hit, plus most of the hit
+      // back again: a thick level that was barely touched is not a refill.
+      const size = this.levelSize(book, fill.side, fill.price);
+      const left = Math.max(0, fill.visible - fill.filled);
+      if (size >= left + fill.filled * this.refill_ratio) {
+        this.detect(fill, "REFILL", time);
+      } else if (size === 0) {
+        // Level consumed: the print went through, nothing was absorbed.
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /** Most recent absorption still inside the hold window. */
+  public current(time: number): Absorption | null {
+    if (this.last && time - this.last.time <= this.hold_ms) return this.last;
+    return null;
+  }
+
+  private detect(fill: PendingFill, kind: Absorption["kind"], time: number) {
+    this.last = { side: fill.side, price: fill.price, absorbed: fill.filled, kind, time };
+    this.pending.delete(fill.side + ":" + fill.price);
+  }
+
+  private levelSize(book: OrderBook, side: "BID" | "ASK", price: number): number {
+    const levels = side === "BID" ? book.bidLevels : book.askLevels;
+    const level = levels.find(([p]) => p === price);
+    return level ? level[1] : 0;
+  }
+
+  private trackSize(qty: number) {
+    if (this.sizes.length < this.size_window) {
+      this.sizes.push(qty);
+    } else {
+      this.sizes[this.size_cursor] = qty;
+      this.size_cursor = (this.size_cursor + 1) % this.size_window;
+    }
+
+    // A fresh sort per trade is wasteful; the threshold drifts slowly.
+    if (++this.since_recalc >= 50 && this.sizes.length >= 50) {
+      this.since_recalc = 0;
+      const sorted = [...this.sizes].sort((a, b) => a - b);
+      this.whale_size = sorted[Math.floor((sorted.length - 1) * this.percentile)];
+    }
+  }
+}